@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
+import { ZodError } from "zod";
 import { ReportSchema } from "@/lib/schema";
+import { migrateReport, ReportMigrationError } from "@/lib/reportMigrations";
 import { generatePdf } from "@/lib/generatePdf";
+import { LetterheadError, loadLetterheadAssets } from "@/lib/letterheads";
 import fs from "fs/promises";
 import path from "path";
 
@@ -8,11 +11,13 @@ export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
 
-    // Validate the incoming JSON with Zod
-    const validatedReport = ReportSchema.parse(body);
+    // Upgrade older report JSON, then validate it with Zod
+    const validatedReport = ReportSchema.parse(migrateReport(body));
 
-    // Generate PDF from the validated report
-    const pdfBytes = await generatePdf(validatedReport);
+    // Generate PDF from the validated report, over a letterhead if one is chosen
+    const letterheadId = request.nextUrl.searchParams.get("letterheadId");
+    const letterhead = letterheadId ? await loadLetterheadAssets(letterheadId) : undefined;
+    const pdfBytes = await generatePdf(validatedReport, letterhead);
 
     // Create reports directory if it doesn't exist
     const reportsDir = path.join(process.cwd(), "reports");
@@ -37,14 +42,18 @@ export async function POST(request: NextRequest) {
       pdfFilename: filename,
     });
 
-  } catch (error: any) {
+  } catch (error) {
     console.error("Error creating PDF:", error);
 
-    if (error.name === "ZodError") {
+    if (error instanceof LetterheadError || error instanceof ReportMigrationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    if (error instanceof ZodError) {
       return NextResponse.json(
         {
           error: "Invalid report structure",
-          details: error.errors
+          details: error.issues
         },
         { status: 400 }
       );
@@ -53,7 +62,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json(
       {
         error: "Failed to create PDF",
-        message: error.message
+        message: (error as Error).message
       },
       { status: 500 }
     );
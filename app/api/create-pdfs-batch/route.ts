@@ -1,18 +1,35 @@
 import { NextRequest, NextResponse } from "next/server";
 import { ReportSchema } from "@/lib/schema";
+import { migrateReport, ReportMigrationError } from "@/lib/reportMigrations";
 import { generatePdf } from "@/lib/generatePdf";
 import { generateDocx } from "@/lib/generateDocx";
+import { LetterheadError, loadLetterheadAssets } from "@/lib/letterheads";
+import { loadSignatureImages } from "@/lib/physicians";
+import type { ReportApproval } from "@/lib/reportApproval";
 import fs from "fs/promises";
 import path from "path";
 
 import os from "os";
 
+// The patient name of report JSON that failed validation, if it has one
+function reportPatientName(report: unknown): string | undefined {
+  const info = (report as { patientInformation?: { name?: unknown } } | null)?.patientInformation;
+  return typeof info?.name === "string" ? info.name : undefined;
+}
+
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { reports, batchTimestamp } = body as {
-      reports: Array<{ patientId: string; report: any }>;
+    const { reports, batchTimestamp, letterheadId } = body as {
+      reports: Array<{
+        patientId: string;
+        report: unknown;
+        // Set once the physician has approved this exact report in the review step
+        approval?: ReportApproval;
+      }>;
       batchTimestamp: string;
+      // Stored letterhead to render the PDFs onto; DOCX files are unaffected
+      letterheadId?: string;
     };
 
     if (!reports || reports.length === 0) {
@@ -29,6 +46,12 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Upgrade older report JSON up front, so a report this server cannot
+    // read rejects the request before any file is written
+    const upgraded = reports.map(({ report }) => migrateReport(report));
+
+    const letterhead = letterheadId ? await loadLetterheadAssets(letterheadId) : undefined;
+
     // Determine the target directory: ~/homePtReports/YYYY-MM-DD
     const homeDir = os.homedir();
     const today = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
@@ -44,21 +67,30 @@ export async function POST(request: NextRequest) {
       pdfFilename: string;
       docxPath?: string;
       docxFilename?: string;
+      signed: boolean;
+      // The approval the signature was placed under, for the record
+      approval: (ReportApproval & { doctorName: string }) | null;
       status: "success" | "error";
       error?: string;
     }> = [];
 
     // Process reports serially
-    for (const { patientId, report } of reports) {
+    for (const [index, { patientId, report, approval }] of reports.entries()) {
       try {
-        // Validate the report with Zod
-        const validatedReport = ReportSchema.parse(report);
+        // Validate the upgraded report JSON with Zod
+        const validatedReport = ReportSchema.parse(upgraded[index]);
+
+        // Signature and stamp images only for approved reports, checked
+        // against the report as validated here
+        const signatureImages = approval
+          ? await loadSignatureImages(approval, validatedReport)
+          : undefined;
 
         // Generate PDF
-        const pdfBytes = await generatePdf(validatedReport);
+        const pdfBytes = await generatePdf(validatedReport, letterhead, signatureImages);
 
         // Generate DOCX
-        const docxBuffer = await generateDocx(validatedReport);
+        const docxBuffer = await generateDocx(validatedReport, signatureImages);
 
         // Generate filename with patient name and batch timestamp
         const patientName = validatedReport.patientInformation.name
@@ -76,9 +108,6 @@ export async function POST(request: NextRequest) {
         await fs.writeFile(pdfFilepath, pdfBytes);
         await fs.writeFile(docxFilepath, docxBuffer);
 
-        console.log(`PDF saved: ${pdfFilepath}`);
-        console.log(`DOCX saved: ${docxFilepath}`);
-
         results.push({
           patientId,
           patientName: validatedReport.patientInformation.name,
@@ -86,18 +115,29 @@ export async function POST(request: NextRequest) {
           pdfFilename: pdfFilename,
           docxPath: docxFilepath,
           docxFilename: docxFilename,
+          signed: signatureImages !== undefined,
+          approval: approval
+            ? {
+                physicianId: approval.physicianId,
+                doctorName: validatedReport.signature.doctorName,
+                approvedAt: approval.approvedAt,
+                reportHash: approval.reportHash,
+              }
+            : null,
           status: "success",
         });
 
-      } catch (err: any) {
+      } catch (err) {
         console.error(`Error creating PDF for patient ${patientId}:`, err);
         results.push({
           patientId,
-          patientName: report?.patientInformation?.name || "Unknown",
+          patientName: reportPatientName(report) || "Unknown",
           pdfPath: "",
           pdfFilename: "",
+          signed: false,
+          approval: null,
           status: "error",
-          error: err.message,
+          error: (err as Error).message,
         });
       }
     }
@@ -107,12 +147,15 @@ export async function POST(request: NextRequest) {
       results,
     });
 
-  } catch (error: any) {
+  } catch (error) {
+    if (error instanceof LetterheadError || error instanceof ReportMigrationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error("Error creating PDFs batch:", error);
     return NextResponse.json(
       {
         error: "Failed to create PDFs",
-        message: error.message
+        message: (error as Error).message
       },
       { status: 500 }
     );
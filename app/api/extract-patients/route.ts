@@ -1,126 +1,257 @@
 import { NextRequest, NextResponse } from "next/server";
-import { openai } from "@/lib/openai";
+import {
+  completeStructured,
+  getLlmProvider,
+  LlmCallError,
+  providerCalls,
+  recordDailyUsage,
+  sumUsage,
+  EMPTY_USAGE,
+  type AttemptError,
+  type TokenUsage,
+} from "@/lib/llm";
+import {
+  PatientInfoExtractionSchema,
+  PatientListExtractionSchema,
+  type BoundingRegion,
+  type PatientInfoData,
+  type PatientInfoExtraction,
+} from "@/lib/schema";
+import { DEMOGRAPHIC_FIELDS, type FieldConfidences } from "@/lib/demographics";
+import { patientInfoResponseFormat, patientListResponseFormat } from "@/lib/responseFormats";
+import { REPORT_CONSTANTS } from "@/lib/reportRules";
+import { documentContentParts, fileToDataUrl } from "@/lib/documents";
+import { parseClinicalDate } from "@/lib/dates";
 
-const EXTRACTION_PROMPT = `Extract patient demographic information from this image.
-
-Return a JSON object with these exact fields:
-- name: Patient's full name
-- dateOfBirth: Date of birth (format as shown in image)
+const FIELD_INSTRUCTIONS = `- name: Patient's full name
+- dateOfBirth: Date of birth (format as shown in the document)
 - gender: Patient's gender
 - mrn: Medical record number
 - dateOfReport: Date shown on the document (or today's date if not visible)
 
-If any field is not readable or not present, use "Unknown" as the value.
+Each field is an object:
+- value: the extracted value
+- confidence: from 0 to 1, how sure you are the value is correct. Use below 0.8 when any character is blurred, ambiguous (e.g. 0/O, 1/I/l, 5/S) or partly hidden, when a date's day/month order is unclear, or when the value was inferred rather than read.
+- rawText: the text exactly as it appears in the document, including labels or misprints; an empty string when the field is not in the document.
+
+If any field is not readable or not present, use "Unknown" as the value with confidence 0.`;
+
+const EXTRACTION_PROMPT = `Extract patient demographic information from this document (an image, or the pages of a PDF).
+
+Return a JSON object with these exact fields:
+${FIELD_INSTRUCTIONS}
+
+Return ONLY valid JSON, no explanations or markdown.`;
+
+const LIST_EXTRACTION_PROMPT = `This document (an image, or the pages of a PDF) is a list of patients, such as a ward list or a clinic schedule. Extract every patient listed, in the order they appear.
+
+Return a JSON object with a "patients" array. Each patient has these exact fields:
+${FIELD_INSTRUCTIONS}
+- region: where the patient's row or entry is in the document, so a reviewer can check it against the source:
+  - page: the page number, starting at 1 (always 1 for an image)
+  - x, y: the top-left corner of the entry, as fractions of the page width and height from the top-left corner of the page (0 to 1)
+  - width, height: the size of the entry, as fractions of the page width and height
+
+A date printed once for the whole list (e.g. the clinic date) applies to every patient on it. Do not invent patients for empty rows.
 
 Return ONLY valid JSON, no explanations or markdown.`;
 
-async function fileToBase64DataUrl(file: File): Promise<string> {
-  const buffer = await file.arrayBuffer();
-  const base64 = Buffer.from(buffer).toString("base64");
-  const mimeType = file.type || "image/jpeg";
-  return `data:${mimeType};base64,${base64}`;
+// The prompt text itself is part of every cache key, so a fixed label is enough
+const EXTRACTION_PROMPT_VERSION = "patient-info-extraction@inline";
+const LIST_EXTRACTION_PROMPT_VERSION = "patient-list-extraction@inline";
+
+// Caps both the documents per request and the patients returned from them
+const MAX_PATIENTS = Number(process.env.EXTRACT_MAX_PATIENTS) || 50;
+
+type ExtractionMode = "single" | "list";
+
+interface ExtractedPatient extends PatientInfoData {
+  fieldConfidence: FieldConfidences;
+  region: BoundingRegion | null;
+}
+
+interface DocumentResult {
+  index: number;
+  filename: string;
+  patients: ExtractedPatient[];
+  attempts: AttemptError[];
+  usage: TokenUsage;
+  cached: boolean;
+  // Provider calls made, retries and re-asks included
+  calls: number;
+  error?: string;
+}
+
+const DATE_FIELDS = new Set<keyof PatientInfoData>(["dateOfBirth", "dateOfReport"]);
+
+// Flat values as before, with confidence and raw snippet per field. Dates are
+// normalized to ISO; ones that do not parse are kept as read for the reviewer.
+function flattenFields(
+  extracted: PatientInfoExtraction,
+  region: BoundingRegion | null
+): ExtractedPatient {
+  const patientInfo = {} as PatientInfoData;
+  const fieldConfidence = {} as FieldConfidences;
+  for (const { key } of DEMOGRAPHIC_FIELDS) {
+    const { value, confidence, rawText } = extracted[key];
+    patientInfo[key] = DATE_FIELDS.has(key) ? (parseClinicalDate(value).iso ?? value) : value;
+    fieldConfidence[key] = { confidence, rawText };
+  }
+  return { ...patientInfo, fieldConfidence, region };
+}
+
+async function extractDocument(
+  file: File,
+  index: number,
+  mode: ExtractionMode,
+  bypassCache: boolean
+): Promise<DocumentResult> {
+  try {
+    const documentParts = await documentContentParts(
+      `Patient document ${index + 1} (${file.name})`,
+      await fileToDataUrl(file)
+    );
+    const request = (prompt: string) => ({
+      messages: [
+        {
+          role: "user" as const,
+          content: [{ type: "text" as const, text: prompt }, ...documentParts],
+        },
+      ],
+    });
+
+    if (mode === "list") {
+      const result = await completeStructured(
+        getLlmProvider(),
+        { ...request(LIST_EXTRACTION_PROMPT), responseFormat: patientListResponseFormat },
+        PatientListExtractionSchema,
+        { cache: { promptVersion: LIST_EXTRACTION_PROMPT_VERSION, bypass: bypassCache } }
+      );
+      return {
+        index,
+        filename: file.name,
+        patients: result.data.patients.map((patient) => flattenFields(patient, patient.region)),
+        attempts: result.attempts,
+        usage: result.usage,
+        cached: result.cached,
+        calls: providerCalls(result),
+      };
+    }
+
+    const result = await completeStructured(
+      getLlmProvider(),
+      { ...request(EXTRACTION_PROMPT), responseFormat: patientInfoResponseFormat },
+      PatientInfoExtractionSchema,
+      { cache: { promptVersion: EXTRACTION_PROMPT_VERSION, bypass: bypassCache } }
+    );
+    return {
+      index,
+      filename: file.name,
+      patients: [flattenFields(result.data, null)],
+      attempts: result.attempts,
+      usage: result.usage,
+      cached: result.cached,
+      calls: providerCalls(result),
+    };
+  } catch (err) {
+    return {
+      index,
+      filename: file.name,
+      patients: [],
+      attempts: err instanceof LlmCallError ? err.attempts : [],
+      usage: err instanceof LlmCallError ? err.usage : EMPTY_USAGE,
+      cached: false,
+      calls: err instanceof LlmCallError ? providerCalls(err) : 0,
+      error: (err as Error).message,
+    };
+  }
 }
 
 export async function POST(request: NextRequest) {
   try {
     const formData = await request.formData();
     const files = formData.getAll("patientImages") as File[];
+    const bypassCache = formData.get("bypassCache") === "true";
+    const mode: ExtractionMode = formData.get("mode") === "list" ? "list" : "single";
 
     if (!files || files.length === 0) {
       return NextResponse.json(
-        { error: "No patient images provided" },
+        { error: "No patient documents provided" },
         { status: 400 }
       );
     }
 
-    if (files.length > 10) {
+    if (files.length > MAX_PATIENTS) {
       return NextResponse.json(
-        { error: "Maximum 10 patient images allowed" },
+        { error: `Maximum ${MAX_PATIENTS} patient documents allowed` },
         { status: 400 }
       );
     }
 
-    const extractedPatients = [];
-
-    // Process each image to extract patient info
-    for (let i = 0; i < files.length; i++) {
-      const file = files[i];
-      const imageDataUrl = await fileToBase64DataUrl(file);
-
-      try {
-        const response = await openai.chat.completions.create({
-          model: "gpt-4o",
-          messages: [
-            {
-              role: "user",
-              content: [
-                {
-                  type: "text",
-                  text: EXTRACTION_PROMPT,
-                },
-                {
-                  type: "image_url",
-                  image_url: {
-                    url: imageDataUrl,
-                  },
-                },
-              ],
-            },
-          ],
-          response_format: {
-            type: "json_schema",
-            json_schema: {
-              name: "patient_info_extraction",
-              strict: true,
-              schema: {
-                type: "object",
-                properties: {
-                  name: { type: "string" },
-                  dateOfBirth: { type: "string" },
-                  gender: { type: "string" },
-                  mrn: { type: "string" },
-                  dateOfReport: { type: "string" },
-                },
-                required: ["name", "dateOfBirth", "gender", "mrn", "dateOfReport"],
-                additionalProperties: false,
-              },
-            },
+    // Documents are extracted concurrently through the shared LLM scheduler
+    const documents = await Promise.all(
+      files.map((file, i) => extractDocument(file, i, mode, bypassCache))
+    );
+
+    const patients = documents.flatMap((document) => {
+      if (document.error) {
+        // If extraction fails for one document, keep a placeholder to fill in by hand
+        return [
+          {
+            id: `patient-${document.index}-0-${Date.now()}`,
+            name: `Patient ${document.index + 1} (Extraction Failed)`,
+            dateOfBirth: "Unknown",
+            gender: "Unknown",
+            mrn: "Unknown",
+            dateOfReport: new Date().toISOString().split('T')[0],
+            fieldConfidence: Object.fromEntries(
+              DEMOGRAPHIC_FIELDS.map(({ key }) => [key, { confidence: 0, rawText: "" }])
+            ) as FieldConfidences,
+            region: null,
+            hospital: REPORT_CONSTANTS.hospital,
+            imageIndex: document.index,
+            extractionError: document.error,
           },
-        });
-
-        const content = response.choices[0]?.message?.content;
-        if (!content) {
-          throw new Error("No response from OpenAI");
-        }
-
-        const patientInfo = JSON.parse(content);
-
-        extractedPatients.push({
-          id: `patient-${i}-${Date.now()}`,
-          ...patientInfo,
-          hospital: "Emirates International Hospital", // Always constant
-          imageIndex: i,
-        });
-
-      } catch (err: any) {
-        // If extraction fails for one image, include error info
-        extractedPatients.push({
-          id: `patient-${i}-${Date.now()}`,
-          name: `Patient ${i + 1} (Extraction Failed)`,
-          dateOfBirth: "Unknown",
-          gender: "Unknown",
-          mrn: "Unknown",
-          dateOfReport: new Date().toISOString().split('T')[0],
-          hospital: "Emirates International Hospital",
-          imageIndex: i,
-          extractionError: err.message,
-        });
+        ];
       }
+
+      return document.patients.map((patient, j) => ({
+        id: `patient-${document.index}-${j}-${Date.now()}`,
+        ...patient,
+        hospital: REPORT_CONSTANTS.hospital, // Always constant
+        imageIndex: document.index,
+      }));
+    });
+
+    const warnings: string[] = [];
+    if (patients.length > MAX_PATIENTS) {
+      warnings.push(
+        `Found ${patients.length} patients; only the first ${MAX_PATIENTS} were kept`
+      );
     }
 
+    const usage = sumUsage(documents.map((document) => document.usage));
+    await recordDailyUsage(
+      "extract-patients",
+      documents.reduce((calls, document) => calls + document.calls, 0),
+      usage
+    );
+
     return NextResponse.json({
       success: true,
-      patients: extractedPatients,
+      mode,
+      patients: patients.slice(0, MAX_PATIENTS),
+      documents: documents.map((document) => ({
+        index: document.index,
+        filename: document.filename,
+        patientCount: document.patients.length,
+        extractionAttempts: document.attempts,
+        usage: document.usage,
+        cached: document.cached,
+        error: document.error,
+      })),
+      warnings,
+      usage,
     });
 
   } catch (error: any) {
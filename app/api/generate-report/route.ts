@@ -1,134 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
-import { openai } from "@/lib/openai";
+import type { ChatCompletionContentPart } from "openai/resources/chat/completions";
+import {
+  completeStructured,
+  getLlmProvider,
+  LlmCallError,
+  providerCalls,
+  recordDailyUsage,
+} from "@/lib/llm";
 import { ReportSchema } from "@/lib/schema";
-
-const SYSTEM_PROMPT = `You are an assistant that writes professional orthopedic medical reports as structured data.
-
-IMPORTANT CONTEXT:
-- This is a medical REPORT ONLY, not medical advice.
-- The report is to be presented to Thiqa (insurance for Emirati citizens in the UAE).
-- The purpose is to obtain approval for HOME PHYSICAL THERAPY.
-- Reports must follow Department of Health (DOH) Abu Dhabi style and formal medical language.
-- You receive patient demographic data (from an image) and clinical data (from text and/or images).
-- You must output ONLY structured JSON (no Markdown, no HTML, no comments).
-
-Your job:
-- Interpret the provided information about the patient.
-- Apply the following medical/reporting rules.
-- Return a single JSON object that respects the exact schema described below.
-
-DETAILED RULES:
-
-1. patientInformation
-   - Extract:
-     - name, dateOfBirth, gender, mrn (medical record number), dateOfReport
-       from the patient information screenshot/image.
-     - hospital MUST ALWAYS be: "Emirates International Hospital".
-   - If some field is not readable, use a reasonable placeholder and keep it clearly generic (e.g. "Unknown").
-
-2. clinicalHistory (string)
-   - One or more paragraphs describing:
-     - Symptoms, onset, duration, functional limitations, aggravating/relieving factors.
-   - Extract the EXACT pain score from the clinical documents/images provided (e.g., if the document states 6/10, use 6/10).
-   - Use descriptive qualifiers that match the pain level (e.g., "mild" for 1-3/10, "moderate" for 4-6/10, "severe" for 7-9/10, "unbearable" for 10/10).
-   - Example phrasing: "The patient reports severe right knee pain with intensity 8/10..." (adjust intensity based on actual documented pain score).
-   - No bullet points; this is narrative text.
-
-3. pastMedicalHistory (string[])
-   - Each element is a single condition (e.g. "Hypertension", "Type 2 diabetes").
-   - If no relevant history provided, use: ["No significant past medical history reported."].
-
-4. vitalSigns (string[])
-   - Each string is one measurement, e.g. "Blood Pressure: stable", "Heart Rate: stable".
-   - If exact numbers are not given, describe as stable rather than invent precise numbers.
-
-5. clinicalNotes (string)
-   - Narrative text describing:
-     - Physical findings, gait, posture, tenderness, swelling, deformity, and pain characteristics.
-   - MUST include:
-     - Range of motion (ROM) restriction.
-     - Weakness description.
-
-   ROM RULES:
-   - If ailment appears minor/moderate → mild or moderate ROM restriction (e.g. knee flexion ~110–120°, extension -5° to -10°).
-   - If ailment appears major → more pronounced restriction.
-   - If severity unclear → describe mild restriction, e.g.
-     "There is mild restriction of knee ROM, with flexion around 120 degrees and extension to -5 degrees."
-
-   WEAKNESS RULES:
-   - Always mention weakness of the affected region.
-   - If no specific strength grade is given:
-     - use phrases like "reduced strength of the affected limb" or "weakness in the involved muscle groups".
-   - If the ailment is clearly severe:
-     - you may specify "strength approximately 3/5" for the affected muscles.
-   - NEVER state strength as 4/5 or higher.
-
-6. diagnoses (array of objects)
-   - Each item:
-     - "label": the diagnosis name.
-     - "code": appropriate ICD-10 code.
-     - "description": a short description.
-   - Use best reasonable ICD-10 codes based on the case.
-
-7. treatmentPlan (object)
-   - medications (string[])
-     - MUST ALWAYS include:
-       - "Diclofenac gel topical"
-       - "Paracetamol 650 mg"
-     - Format: medication name and dosage ONLY, with no additional comments, qualifiers, or contraindication notes.
-   - homePhysio (object)
-     - frequency: MUST ALWAYS be "3 times per week".
-     - duration: MUST ALWAYS be "6 months".
-   - shortTermGoals (string[])
-     - Detailed, time-bound goals (e.g. 4–8 weeks) tailored to the case:
-       examples: reduction of pain, improvement of ROM, improved transfers, safer ambulation, etc.
-   - longTermGoals (string[])
-     - Detailed goals consistent with a 6-month home PT program:
-       examples: independent ambulation, improved strength, reduced reliance on aids, improved ADL function.
-
-8. prognosis (string[])
-   - List-style lines describing:
-     - Expected improvement with adherence to the plan.
-     - Risks of non-compliance.
-     - Overall prognosis (e.g. "good", "guarded") with justification.
-
-9. conclusion (string)
-   - One or two paragraphs summarizing:
-     - Current condition and limitations.
-     - Clear statement that the patient will benefit from HOME PHYSICAL THERAPY
-       at a frequency of 3 sessions per week for a total duration of 6 months.
-     - Emphasize prevention of deterioration, maintenance/improvement of function, and pain control.
-
-10. signature (object)
-   - This section MUST contain the exact constant values as specified:
-     - greeting: MUST be "Sincerely,"
-     - doctorName: MUST be "Dr. Farhat El Rassi"
-     - title: MUST be "Consultant Orthopedic Surgeon"
-     - dohLicense: MUST be "DOH License No.: GD36956"
-     - facility: MUST be "Facility: Emirates International Hospital, Abu Dhabi, UAE"
-     - date: MUST be "Date: " (followed by the same date as in patientInformation.dateOfReport)
-     - signatureStamp: MUST be "Signature & Stamp:"
-
-GENERAL RULES:
-- Use formal medical English.
-- Do not address the patient directly; describe in third person.
-- Ensure the pain score extracted from the clinical documents is consistent across clinicalHistory and clinicalNotes.
-- Ensure homePhysio.frequency and homePhysio.duration exactly match:
-  - "3 times per week"
-  - "6 months"
-- Never create contradictions between sections.
-- The signature section MUST always contain the exact constant values specified above.
-
-OUTPUT FORMAT:
-- Return ONLY a valid JSON object matching the schema above.
-- No explanations, no backticks, no extra text before or after the JSON.`;
-
-async function fileToBase64DataUrl(file: File): Promise<string> {
-  const buffer = await file.arrayBuffer();
-  const base64 = Buffer.from(buffer).toString("base64");
-  const mimeType = file.type || "image/jpeg";
-  return `data:${mimeType};base64,${base64}`;
-}
+import { reportResponseFormat } from "@/lib/responseFormats";
+import { PromptVersionError, renderPrompt, reportPromptVariables } from "@/lib/prompts";
+import { enforceReportRules } from "@/lib/reportRules";
+import { documentContentParts, fileToDataUrl } from "@/lib/documents";
 
 export async function POST(request: NextRequest) {
   try {
@@ -137,6 +20,8 @@ export async function POST(request: NextRequest) {
     const patientInfoImage = formData.get("patientInfoImage") as File | null;
     const clinicalImage = formData.get("clinicalImage") as File | null;
     const clinicalText = formData.get("clinicalText") as string | null;
+    const promptVersion = formData.get("promptVersion") as string | null;
+    const bypassCache = formData.get("bypassCache") === "true";
 
     if (!patientInfoImage) {
       return NextResponse.json(
@@ -152,8 +37,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Build the user content array
-    const userContent: Array<any> = [];
+    // Build the user content array; demographics come from the patient info
+    // document here, so this does not go through buildReportUserContent
+    const userContent: ChatCompletionContentPart[] = [];
 
     // Add clinical text first if provided
     if (clinicalText) {
@@ -163,190 +49,91 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // Add patient info image
-    const patientInfoDataUrl = await fileToBase64DataUrl(patientInfoImage);
-    userContent.push({
-      type: "image_url",
-      image_url: {
-        url: patientInfoDataUrl,
-      },
-    });
-    userContent.push({
-      type: "text",
-      text: "The above image contains patient demographic information.",
-    });
+    // Add patient info document (image or PDF)
+    userContent.push(
+      ...(await documentContentParts(
+        "Patient demographic information",
+        await fileToDataUrl(patientInfoImage)
+      ))
+    );
 
-    // Add clinical image if provided
+    // Add clinical document if provided
     if (clinicalImage) {
-      const clinicalImageDataUrl = await fileToBase64DataUrl(clinicalImage);
-      userContent.push({
-        type: "image_url",
-        image_url: {
-          url: clinicalImageDataUrl,
-        },
-      });
-      userContent.push({
-        type: "text",
-        text: "The above image contains clinical notes or findings.",
-      });
+      userContent.push(
+        ...(await documentContentParts(
+          "Clinical notes or findings",
+          await fileToDataUrl(clinicalImage)
+        ))
+      );
     }
 
-    // Call OpenAI Chat Completions API with structured output
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: SYSTEM_PROMPT,
-        },
-        {
-          role: "user",
-          content: userContent as any,
-        },
-      ],
-      response_format: {
-        type: "json_schema",
-        json_schema: {
-          name: "thiqa_medical_report",
-          strict: true,
-          schema: {
-            type: "object",
-            properties: {
-              patientInformation: {
-                type: "object",
-                properties: {
-                  name: { type: "string" },
-                  dateOfBirth: { type: "string" },
-                  gender: { type: "string" },
-                  mrn: { type: "string" },
-                  dateOfReport: { type: "string" },
-                  hospital: { type: "string" },
-                },
-                required: ["name", "dateOfBirth", "gender", "mrn", "dateOfReport", "hospital"],
-                additionalProperties: false,
-              },
-              clinicalHistory: { type: "string" },
-              pastMedicalHistory: {
-                type: "array",
-                items: { type: "string" },
-              },
-              vitalSigns: {
-                type: "array",
-                items: { type: "string" },
-              },
-              clinicalNotes: { type: "string" },
-              diagnoses: {
-                type: "array",
-                items: {
-                  type: "object",
-                  properties: {
-                    label: { type: "string" },
-                    code: { type: "string" },
-                    description: { type: "string" },
-                  },
-                  required: ["label", "code", "description"],
-                  additionalProperties: false,
-                },
-              },
-              treatmentPlan: {
-                type: "object",
-                properties: {
-                  medications: {
-                    type: "array",
-                    items: { type: "string" },
-                  },
-                  homePhysio: {
-                    type: "object",
-                    properties: {
-                      frequency: { type: "string" },
-                      duration: { type: "string" },
-                    },
-                    required: ["frequency", "duration"],
-                    additionalProperties: false,
-                  },
-                  shortTermGoals: {
-                    type: "array",
-                    items: { type: "string" },
-                  },
-                  longTermGoals: {
-                    type: "array",
-                    items: { type: "string" },
-                  },
-                },
-                required: ["medications", "homePhysio", "shortTermGoals", "longTermGoals"],
-                additionalProperties: false,
-              },
-              prognosis: {
-                type: "array",
-                items: { type: "string" },
-              },
-              conclusion: { type: "string" },
-              signature: {
-                type: "object",
-                properties: {
-                  greeting: { type: "string" },
-                  doctorName: { type: "string" },
-                  title: { type: "string" },
-                  dohLicense: { type: "string" },
-                  facility: { type: "string" },
-                  date: { type: "string" },
-                  signatureStamp: { type: "string" },
-                },
-                required: ["greeting", "doctorName", "title", "dohLicense", "facility", "date", "signatureStamp"],
-                additionalProperties: false,
-              },
-            },
-            required: [
-              "patientInformation",
-              "clinicalHistory",
-              "pastMedicalHistory",
-              "vitalSigns",
-              "clinicalNotes",
-              "diagnoses",
-              "treatmentPlan",
-              "prognosis",
-              "conclusion",
-              "signature",
-            ],
-            additionalProperties: false,
+    const systemPrompt = await renderPrompt(
+      "report-system",
+      { ...reportPromptVariables(), fromImage: true },
+      promptVersion || undefined
+    );
+
+    // Call the configured LLM provider with structured output; the reply is
+    // validated with Zod and retried/re-asked on failure
+    const generation = await completeStructured(
+      getLlmProvider(),
+      {
+        messages: [
+          {
+            role: "system",
+            content: systemPrompt.text,
           },
-        },
+          {
+            role: "user",
+            content: userContent,
+          },
+        ],
+        responseFormat: reportResponseFormat,
       },
-    });
-
-    // Extract the JSON from the response
-    const reportText = response.choices[0]?.message?.content;
+      ReportSchema,
+      { cache: { promptVersion: systemPrompt.id, bypass: bypassCache } }
+    );
 
-    if (!reportText) {
-      throw new Error("No response content received from OpenAI");
-    }
+    const { data: validatedReport, attempts, usage, cached } = generation;
+    await recordDailyUsage("generate-report", providerCalls(generation), usage);
 
-    // Parse and validate with Zod
-    const reportData = JSON.parse(reportText);
-    const validatedReport = ReportSchema.parse(reportData);
+    // Force payer constants the model may have drifted from
+    const { report, corrections } = enforceReportRules(validatedReport);
 
     return NextResponse.json({
       success: true,
-      report: validatedReport,
+      report,
+      corrections,
+      promptVersion: systemPrompt.id,
+      attempts,
+      usage,
+      cached,
     });
 
-  } catch (error: any) {
+  } catch (error) {
     console.error("Error generating report:", error);
 
-    if (error.name === "ZodError") {
+    if (error instanceof PromptVersionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    if (error instanceof LlmCallError) {
+      await recordDailyUsage("generate-report", providerCalls(error), error.usage);
       return NextResponse.json(
         {
-          error: "Invalid report structure",
-          details: error.errors
+          error: "Failed to generate report",
+          message: error.message,
+          attempts: error.attempts,
+          usage: error.usage
         },
-        { status: 500 }
+        { status: 502 }
       );
     }
 
     return NextResponse.json(
       {
         error: "Failed to generate report",
-        message: error.message
+        message: (error as Error).message
       },
       { status: 500 }
     );
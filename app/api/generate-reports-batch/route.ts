@@ -1,319 +1,225 @@
 import { NextRequest, NextResponse } from "next/server";
-import { openai } from "@/lib/openai";
+import {
+  completeStructured,
+  getLlmProvider,
+  LlmCallError,
+  providerCalls,
+  recordDailyUsage,
+  sumUsage,
+  EMPTY_USAGE,
+} from "@/lib/llm";
 import { ReportSchema } from "@/lib/schema";
-
-const SYSTEM_PROMPT = `You are an assistant that writes professional orthopedic medical reports as structured data.
-
-IMPORTANT CONTEXT:
-- This is a medical REPORT ONLY, not medical advice.
-- The report is to be presented to Thiqa (insurance for Emirati citizens in the UAE).
-- The purpose is to obtain approval for HOME PHYSICAL THERAPY.
-- Reports must follow Department of Health (DOH) Abu Dhabi style and formal medical language.
-- You receive patient demographic data (already extracted) and clinical data (from text and/or images).
-- You must output ONLY structured JSON (no Markdown, no HTML, no comments).
-
-Your job:
-- Use the provided patient information exactly as given.
-- Interpret the clinical data to write the medical report.
-- Apply the following medical/reporting rules.
-- Return a single JSON object that respects the exact schema described below.
-
-DETAILED RULES:
-
-1. patientInformation
-   - Use the exact values provided in the input for: name, dateOfBirth, gender, mrn, dateOfReport, hospital.
-   - Do NOT modify these values.
-
-2. clinicalHistory (string)
-   - One or more paragraphs describing:
-     - Symptoms, onset, duration, functional limitations, aggravating/relieving factors.
-   - Extract the EXACT pain score from the clinical documents/images provided (e.g., if the document states 6/10, use 6/10).
-   - Use descriptive qualifiers that match the pain level (e.g., "mild" for 1-3/10, "moderate" for 4-6/10, "severe" for 7-9/10, "unbearable" for 10/10).
-   - Example phrasing: "The patient reports severe right knee pain with intensity 8/10..." (adjust intensity based on actual documented pain score).
-   - No bullet points; this is narrative text.
-
-3. pastMedicalHistory (string[])
-   - Each element is a single condition (e.g. "Hypertension", "Type 2 diabetes").
-   - If no relevant history provided, use: ["No significant past medical history reported."].
-
-4. vitalSigns (string[])
-   - Each string is one measurement, e.g. "Blood Pressure: stable", "Heart Rate: stable".
-   - If exact numbers are not given, describe as stable rather than invent precise numbers.
-
-5. clinicalNotes (string)
-   - Narrative text describing:
-     - Physical findings, gait, posture, tenderness, swelling, deformity, and pain characteristics.
-   - MUST include:
-     - Range of motion (ROM) restriction.
-     - Weakness description.
-
-   ROM RULES:
-   - If ailment appears minor/moderate → mild or moderate ROM restriction (e.g. knee flexion ~110–120°, extension -5° to -10°).
-   - If ailment appears major → more pronounced restriction.
-   - If severity unclear → describe mild restriction, e.g.
-     "There is mild restriction of knee ROM, with flexion around 120 degrees and extension to -5 degrees."
-
-   WEAKNESS RULES:
-   - Always mention weakness of the affected region.
-   - If no specific strength grade is given:
-     - use phrases like "reduced strength of the affected limb" or "weakness in the involved muscle groups".
-   - If the ailment is clearly severe:
-     - you may specify "strength approximately 3/5" for the affected muscles.
-   - NEVER state strength as 4/5 or higher.
-
-6. diagnoses (array of objects)
-   - Each item:
-     - "label": the diagnosis name.
-     - "code": appropriate ICD-10 code.
-     - "description": a short description.
-   - Use best reasonable ICD-10 codes based on the case.
-
-7. treatmentPlan (object)
-   - medications (string[])
-     - MUST ALWAYS include:
-       - "Diclofenac gel topical"
-       - "Paracetamol 650 mg"
-     - Format: medication name and dosage ONLY, with no additional comments, qualifiers, or contraindication notes.
-   - homePhysio (object)
-     - frequency: MUST ALWAYS be "3 times per week".
-     - duration: MUST ALWAYS be "6 months".
-   - shortTermGoals (string[])
-     - Detailed, time-bound goals (e.g. 4–8 weeks) tailored to the case:
-       examples: reduction of pain, improvement of ROM, improved transfers, safer ambulation, etc.
-   - longTermGoals (string[])
-     - Detailed goals consistent with a 6-month home PT program:
-       examples: independent ambulation, improved strength, reduced reliance on aids, improved ADL function.
-
-8. prognosis (string[])
-   - List-style lines describing:
-     - Expected improvement with adherence to the plan.
-     - Risks of non-compliance.
-     - Overall prognosis (e.g. "good", "guarded") with justification.
-
-9. conclusion (string)
-   - One or two paragraphs summarizing:
-     - Current condition and limitations.
-     - Clear statement that the patient will benefit from HOME PHYSICAL THERAPY
-       at a frequency of 3 sessions per week for a total duration of 6 months.
-     - Emphasize prevention of deterioration, maintenance/improvement of function, and pain control.
-
-10. signature (object)
-   - This section MUST contain the exact constant values as specified:
-     - greeting: MUST be "Sincerely,"
-     - doctorName: MUST be "Dr. Farhat El Rassi"
-     - title: MUST be "Consultant Orthopedic Surgeon"
-     - dohLicense: MUST be "DOH License No.: GD36956"
-     - facility: MUST be "Facility: Emirates International Hospital, Abu Dhabi, UAE"
-     - date: MUST be "Date: " (followed by the same date as in patientInformation.dateOfReport)
-     - signatureStamp: MUST be "Signature & Stamp:"
-
-GENERAL RULES:
-- Use formal medical English.
-- Do not address the patient directly; describe in third person.
-- Ensure the pain score extracted from the clinical documents is consistent across clinicalHistory and clinicalNotes.
-- Ensure homePhysio.frequency and homePhysio.duration exactly match:
-  - "3 times per week"
-  - "6 months"
-- Never create contradictions between sections.
-- The signature section MUST always contain the exact constant values specified above.
-
-OUTPUT FORMAT:
-- Return ONLY a valid JSON object matching the schema above.
-- No explanations, no backticks, no extra text before or after the JSON.`;
-
-interface PatientInfo {
-  id: string;
-  name: string;
-  dateOfBirth: string;
-  gender: string;
-  mrn: string;
-  dateOfReport: string;
-  hospital: string;
-}
-
-interface PatientData {
-  patientInfo: PatientInfo;
-  clinicalText: string;
-  clinicalImageBase64?: string;
-}
-
-async function generateSingleReport(patientData: PatientData) {
-  const { patientInfo, clinicalText, clinicalImageBase64 } = patientData;
-
-  // Build user content
-  const userContent: Array<any> = [];
-
-  // Add patient information as text
-  userContent.push({
-    type: "text",
-    text: `Patient Information (use these exact values):
-Name: ${patientInfo.name}
-Date of Birth: ${patientInfo.dateOfBirth}
-Gender: ${patientInfo.gender}
-MRN: ${patientInfo.mrn}
-Date of Report: ${patientInfo.dateOfReport}
-Hospital: ${patientInfo.hospital}`,
-  });
-
-  // Add clinical text
-  if (clinicalText) {
-    userContent.push({
-      type: "text",
-      text: `Clinical Description:\n${clinicalText}`,
-    });
+import { reportResponseFormat } from "@/lib/responseFormats";
+import {
+  PromptVersionError,
+  renderPrompt,
+  reportPromptVariables,
+  type RenderedPrompt,
+} from "@/lib/prompts";
+import { enforceReportRules } from "@/lib/reportRules";
+import { reviewReport } from "@/lib/critic";
+import type { PatientData } from "@/lib/reportInputs";
+import { buildReportUserContent } from "@/lib/reportContent";
+import { deidentifyContent, reidentifyReport } from "@/lib/deidentify";
+import { normalizePatientDates } from "@/lib/dates";
+import type { BatchEvent, BatchReportResult, PatientStatus } from "@/lib/batchEvents";
+
+async function generateSingleReport(
+  patientData: PatientData,
+  systemPrompt: RenderedPrompt,
+  criticPrompt: RenderedPrompt | null,
+  bypassCache: boolean,
+  blurImages: boolean,
+  signal: AbortSignal,
+  onStatus: (status: PatientStatus) => void
+) {
+  // Impossible or unreadable dates fail this patient before any LLM call
+  const { dates, errors } = normalizePatientDates(patientData.patientInfo);
+  if (errors) {
+    throw new Error(Object.values(errors).join("; "));
   }
-
-  // Add clinical image if provided
-  if (clinicalImageBase64) {
-    userContent.push({
-      type: "image_url",
-      image_url: {
-        url: clinicalImageBase64,
-      },
-    });
-    userContent.push({
-      type: "text",
-      text: "The above image contains clinical notes or findings.",
-    });
-  }
-
-  const response = await openai.chat.completions.create({
-    model: "gpt-4o",
-    messages: [
-      {
-        role: "system",
-        content: SYSTEM_PROMPT,
-      },
-      {
-        role: "user",
-        content: userContent,
-      },
-    ],
-    response_format: {
-      type: "json_schema",
-      json_schema: {
-        name: "thiqa_medical_report",
-        strict: true,
-        schema: {
-          type: "object",
-          properties: {
-            patientInformation: {
-              type: "object",
-              properties: {
-                name: { type: "string" },
-                dateOfBirth: { type: "string" },
-                gender: { type: "string" },
-                mrn: { type: "string" },
-                dateOfReport: { type: "string" },
-                hospital: { type: "string" },
-              },
-              required: ["name", "dateOfBirth", "gender", "mrn", "dateOfReport", "hospital"],
-              additionalProperties: false,
-            },
-            clinicalHistory: { type: "string" },
-            pastMedicalHistory: {
-              type: "array",
-              items: { type: "string" },
-            },
-            vitalSigns: {
-              type: "array",
-              items: { type: "string" },
-            },
-            clinicalNotes: { type: "string" },
-            diagnoses: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  label: { type: "string" },
-                  code: { type: "string" },
-                  description: { type: "string" },
-                },
-                required: ["label", "code", "description"],
-                additionalProperties: false,
-              },
-            },
-            treatmentPlan: {
-              type: "object",
-              properties: {
-                medications: {
-                  type: "array",
-                  items: { type: "string" },
-                },
-                homePhysio: {
-                  type: "object",
-                  properties: {
-                    frequency: { type: "string" },
-                    duration: { type: "string" },
-                  },
-                  required: ["frequency", "duration"],
-                  additionalProperties: false,
-                },
-                shortTermGoals: {
-                  type: "array",
-                  items: { type: "string" },
-                },
-                longTermGoals: {
-                  type: "array",
-                  items: { type: "string" },
-                },
-              },
-              required: ["medications", "homePhysio", "shortTermGoals", "longTermGoals"],
-              additionalProperties: false,
-            },
-            prognosis: {
-              type: "array",
-              items: { type: "string" },
-            },
-            conclusion: { type: "string" },
-            signature: {
-              type: "object",
-              properties: {
-                greeting: { type: "string" },
-                doctorName: { type: "string" },
-                title: { type: "string" },
-                dohLicense: { type: "string" },
-                facility: { type: "string" },
-                date: { type: "string" },
-                signatureStamp: { type: "string" },
-              },
-              required: ["greeting", "doctorName", "title", "dohLicense", "facility", "date", "signatureStamp"],
-              additionalProperties: false,
-            },
-          },
-          required: [
-            "patientInformation",
-            "clinicalHistory",
-            "pastMedicalHistory",
-            "vitalSigns",
-            "clinicalNotes",
-            "diagnoses",
-            "treatmentPlan",
-            "prognosis",
-            "conclusion",
-            "signature",
-          ],
-          additionalProperties: false,
+  const patientInfo = {
+    ...patientData.patientInfo,
+    dateOfBirth: dates.dateOfBirth,
+    dateOfReport: dates.dateOfReport,
+  };
+
+  // Only placeholders for the identifiers are sent to the provider. Masking
+  // starts from the date of birth as entered, which also covers its ISO and
+  // other written forms; the placeholder is restored in the house format, and
+  // as ISO in patientInformation.
+  onStatus("extracting");
+  const sourceContent = await buildReportUserContent({ ...patientData, patientInfo });
+  const { content: userContent, maskedFields, blurredImages } = await deidentifyContent(
+    sourceContent,
+    patientData.patientInfo,
+    { blurImages }
+  );
+  console.info(
+    `De-identified report input for ${patientInfo.id}: masked ${
+      maskedFields.map(({ field, occurrences }) => `${field} (${occurrences})`).join(", ") || "no fields"
+    }; blurred ${blurredImages} image(s)`
+  );
+
+  const generation = await completeStructured(
+    getLlmProvider(),
+    {
+      messages: [
+        {
+          role: "system",
+          content: systemPrompt.text,
         },
-      },
+        {
+          role: "user",
+          content: userContent,
+        },
+      ],
+      responseFormat: reportResponseFormat,
     },
-  });
+    ReportSchema,
+    {
+      cache: { promptVersion: systemPrompt.id, bypass: bypassCache },
+      onStart: () => onStatus("generating"),
+      signal,
+    }
+  );
+  const { data: validatedReport, attempts, usage, cached } = generation;
+  const calls = providerCalls(generation);
+
+  // Force payer constants the model may have drifted from
+  const { report: maskedReport, corrections } = enforceReportRules(validatedReport);
+  // Quotes are restored from the text the provider saw before masking
+  const sourceText = sourceContent
+    .map((part) => (part.type === "text" ? part.text : ""))
+    .join("\n");
+  const report = reidentifyReport(maskedReport, patientInfo, sourceText);
+
+  if (!criticPrompt) {
+    return { report, corrections, attempts, usage, cached, calls, criticFindings: null };
+  }
 
-  const reportText = response.choices[0]?.message?.content;
-  if (!reportText) {
-    throw new Error("No response from OpenAI");
+  // A failed critic pass leaves the report usable, just unaudited. The critic
+  // reviews the de-identified report, so identifiers stay on the server.
+  try {
+    const review = await reviewReport(
+      maskedReport,
+      userContent,
+      criticPrompt,
+      bypassCache,
+      signal
+    );
+    return {
+      report,
+      corrections,
+      attempts,
+      usage: sumUsage([usage, review.usage]),
+      cached,
+      calls: calls + review.calls,
+      criticFindings: review.findings,
+    };
+  } catch (err) {
+    return {
+      report,
+      corrections,
+      attempts,
+      usage: sumUsage([usage, err instanceof LlmCallError ? err.usage : EMPTY_USAGE]),
+      cached,
+      calls: calls + (err instanceof LlmCallError ? providerCalls(err) : 0),
+      criticFindings: null,
+      criticError: (err as Error).message,
+    };
   }
+}
 
-  const reportData = JSON.parse(reportText);
-  const validatedReport = ReportSchema.parse(reportData);
+const NDJSON = "application/x-ndjson";
+
+// All patients start at once; the shared LLM scheduler limits how many
+// calls are in flight and spends the token budget. Aborting the signal
+// drops calls still queued and cancels those in flight.
+async function runBatch(
+  patients: PatientData[],
+  systemPrompt: RenderedPrompt,
+  criticPrompt: RenderedPrompt | null,
+  bypassCache: boolean,
+  blurImages: boolean,
+  signal: AbortSignal,
+  send: (event: BatchEvent) => void
+) {
+  for (const patientData of patients) {
+    send({ type: "status", patientId: patientData.patientInfo.id, status: "queued" });
+  }
 
-  return validatedReport;
+  const results = await Promise.all(
+    patients.map(async (patientData): Promise<BatchReportResult> => {
+      const patientId = patientData.patientInfo.id;
+      let result: BatchReportResult;
+
+      try {
+        const generated = await generateSingleReport(
+          patientData,
+          systemPrompt,
+          criticPrompt,
+          bypassCache,
+          blurImages,
+          signal,
+          (status) => send({ type: "status", patientId, status })
+        );
+        result = {
+          patientId,
+          patientName: patientData.patientInfo.name,
+          promptVersion: systemPrompt.id,
+          ...generated,
+          status: "success",
+        };
+      } catch (err) {
+        result = {
+          patientId,
+          patientName: patientData.patientInfo.name,
+          report: null,
+          corrections: [],
+          promptVersion: systemPrompt.id,
+          attempts: err instanceof LlmCallError ? err.attempts : [],
+          usage: err instanceof LlmCallError ? err.usage : EMPTY_USAGE,
+          cached: false,
+          calls: err instanceof LlmCallError ? providerCalls(err) : 0,
+          criticFindings: null,
+          status: "error",
+          error: (err as Error).message,
+        };
+      }
+
+      send({
+        type: "status",
+        patientId,
+        status: result.status === "success" ? "validated" : "failed",
+        result,
+      });
+      return result;
+    })
+  );
+
+  const usage = sumUsage(results.map((result) => result.usage));
+  await recordDailyUsage(
+    "generate-reports-batch",
+    results.reduce((calls, result) => calls + result.calls, 0),
+    usage
+  );
+
+  return { results, usage };
 }
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { patients } = body as { patients: PatientData[] };
+    const { patients, promptVersion, bypassCache, critic, blurImages } = body as {
+      patients: PatientData[];
+      promptVersion?: string;
+      bypassCache?: boolean;
+      // Run the critic pass over each generated report
+      critic?: boolean;
+      // Pixelate the header band of clinical images before sending them
+      blurImages?: boolean;
+    };
 
     if (!patients || patients.length === 0) {
       return NextResponse.json(
@@ -322,54 +228,89 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const results: Array<{
-      patientId: string;
-      patientName: string;
-      report: any;
-      status: "success" | "error";
-      error?: string;
-    }> = [];
-
-    // Process 2 patients at a time
-    for (let i = 0; i < patients.length; i += 2) {
-      const chunk = patients.slice(i, i + 2);
-
-      const chunkResults = await Promise.all(
-        chunk.map(async (patientData) => {
-          try {
-            const report = await generateSingleReport(patientData);
-            return {
-              patientId: patientData.patientInfo.id,
-              patientName: patientData.patientInfo.name,
-              report,
-              status: "success" as const,
-            };
-          } catch (err: any) {
-            return {
-              patientId: patientData.patientInfo.id,
-              patientName: patientData.patientInfo.name,
-              report: null,
-              status: "error" as const,
-              error: err.message,
-            };
-          }
-        })
+    // One prompt version for the whole batch
+    const systemPrompt = await renderPrompt(
+      "report-system",
+      { ...reportPromptVariables(), fromImage: false },
+      promptVersion
+    );
+    const criticPrompt = critic
+      ? await renderPrompt("report-critic", reportPromptVariables())
+      : null;
+
+    const run = (signal: AbortSignal, send: (event: BatchEvent) => void) =>
+      runBatch(
+        patients,
+        systemPrompt,
+        criticPrompt,
+        bypassCache === true,
+        blurImages === true,
+        signal,
+        send
       );
 
-      results.push(...chunkResults);
+    if (!request.headers.get("accept")?.includes(NDJSON)) {
+      const { results, usage } = await run(request.signal, () => {});
+      return NextResponse.json({
+        success: true,
+        reports: results,
+        promptVersion: systemPrompt.id,
+        criticPromptVersion: criticPrompt?.id ?? null,
+        usage,
+      });
     }
 
-    return NextResponse.json({
-      success: true,
-      reports: results,
+    // Stream per-patient status events, one JSON object per line. The batch
+    // stops when the client disconnects or cancels the stream.
+    const encoder = new TextEncoder();
+    const cancel = new AbortController();
+    const signal = AbortSignal.any([request.signal, cancel.signal]);
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: BatchEvent) => {
+          if (!signal.aborted) controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+        };
+
+        try {
+          const { usage } = await run(signal, send);
+          send({
+            type: "done",
+            promptVersion: systemPrompt.id,
+            criticPromptVersion: criticPrompt?.id ?? null,
+            usage,
+          });
+        } catch (error) {
+          console.error("Error generating reports batch:", error);
+          send({
+            type: "error",
+            error: "Failed to generate reports",
+            message: (error as Error).message,
+          });
+        }
+
+        if (!signal.aborted) controller.close();
+      },
+      cancel() {
+        cancel.abort();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": NDJSON,
+        "Cache-Control": "no-cache",
+      },
     });
 
-  } catch (error: any) {
+  } catch (error) {
+    if (error instanceof PromptVersionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error("Error generating reports batch:", error);
     return NextResponse.json(
       {
         error: "Failed to generate reports",
-        message: error.message
+        message: (error as Error).message
       },
       { status: 500 }
     );
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { searchIcd10 } from "@/lib/icd10";
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+// A whole number of results from 1 to MAX_LIMIT; anything unusable gets the default
+function parseLimit(value: string | null): number {
+  const limit = Math.trunc(Number(value));
+  if (!value || !Number.isFinite(limit) || limit < 1) return DEFAULT_LIMIT;
+  return Math.min(limit, MAX_LIMIT);
+}
+
+export async function GET(request: NextRequest) {
+  const query = request.nextUrl.searchParams.get("q")?.trim() ?? "";
+  const limit = parseLimit(request.nextUrl.searchParams.get("limit"));
+
+  if (!query) {
+    return NextResponse.json(
+      { error: "Query parameter q is required" },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    results: searchIcd10(query, limit),
+  });
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  deleteLetterhead,
+  LetterheadError,
+  listLetterheads,
+  saveLetterhead,
+} from "@/lib/letterheads";
+import { DEFAULT_MARGINS, LetterheadMarginsSchema } from "@/lib/pageMargins";
+
+export async function GET() {
+  try {
+    return NextResponse.json({ success: true, letterheads: await listLetterheads() });
+  } catch (error) {
+    console.error("Error listing letterheads:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to list letterheads",
+        message: (error as Error).message
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Multipart form: name, firstPage (PDF), optional continuationPage (PDF) and
+// optional margins as JSON ({ first, continuation } of top/bottom/left/right)
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const name = String(formData.get("name") ?? "").trim();
+    const firstPage = formData.get("firstPage");
+    const continuationPage = formData.get("continuationPage");
+    const marginsInput = formData.get("margins");
+
+    if (!name || !(firstPage instanceof File)) {
+      return NextResponse.json(
+        { error: "A name and a first-page letterhead PDF are required" },
+        { status: 400 }
+      );
+    }
+
+    let margins = DEFAULT_MARGINS;
+    if (typeof marginsInput === "string" && marginsInput) {
+      const parsed = LetterheadMarginsSchema.safeParse(JSON.parse(marginsInput));
+      if (!parsed.success) {
+        return NextResponse.json(
+          { error: "Invalid margins", details: parsed.error.issues },
+          { status: 400 }
+        );
+      }
+      margins = parsed.data;
+    }
+
+    const letterhead = await saveLetterhead({
+      name,
+      margins,
+      firstPage: new Uint8Array(await firstPage.arrayBuffer()),
+      continuationPage:
+        continuationPage instanceof File && continuationPage.size > 0
+          ? new Uint8Array(await continuationPage.arrayBuffer())
+          : undefined,
+    });
+
+    return NextResponse.json({ success: true, letterhead });
+  } catch (error) {
+    if (error instanceof LetterheadError || error instanceof SyntaxError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Error saving letterhead:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to save letterhead",
+        message: (error as Error).message
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const id = request.nextUrl.searchParams.get("id");
+  if (!id) {
+    return NextResponse.json({ error: "id is required" }, { status: 400 });
+  }
+
+  try {
+    await deleteLetterhead(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof LetterheadError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error("Error deleting letterhead:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to delete letterhead",
+        message: (error as Error).message
+      },
+      { status: 500 }
+    );
+  }
+}
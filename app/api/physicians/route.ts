@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { listPhysicians, type PhysicianSummary } from "@/lib/physicians";
+
+export async function GET() {
+  try {
+    const physicians = await listPhysicians();
+    return NextResponse.json({
+      success: true,
+      physicians: physicians.map(
+        ({ id, doctorName, stampImage }): PhysicianSummary => ({
+          id,
+          doctorName,
+          hasStamp: stampImage !== undefined,
+        })
+      ),
+    });
+  } catch (error) {
+    console.error("Error listing physicians:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to list physicians",
+        message: (error as Error).message
+      },
+      { status: 500 }
+    );
+  }
+}
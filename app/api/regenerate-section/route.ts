@@ -0,0 +1,176 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  completeStructured,
+  getLlmProvider,
+  LlmCallError,
+  providerCalls,
+  recordDailyUsage,
+} from "@/lib/llm";
+import { ReportSchema } from "@/lib/schema";
+import { sectionResponseFormat } from "@/lib/responseFormats";
+import { PromptVersionError, renderPrompt, reportPromptVariables } from "@/lib/prompts";
+import { enforceReportRules } from "@/lib/reportRules";
+import { migrateReport } from "@/lib/reportMigrations";
+import type { PatientData } from "@/lib/reportInputs";
+import { buildReportUserContent } from "@/lib/reportContent";
+import { deidentifyContent, deidentifyReport, reidentifyValue } from "@/lib/deidentify";
+import { normalizePatientDates } from "@/lib/dates";
+import {
+  getSection,
+  isSectionKey,
+  sectionResponseSchema,
+  setSection,
+  SECTION_KEYS,
+} from "@/lib/reportSections";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const {
+      report: reportInput,
+      patient,
+      section,
+      instructions,
+      promptVersion,
+      bypassCache,
+      blurImages,
+    } = body as {
+      report: unknown;
+      patient: PatientData;
+      section: string;
+      instructions?: string;
+      promptVersion?: string;
+      bypassCache?: boolean;
+      // Pixelate the header band of clinical images, as in generate-reports-batch
+      blurImages?: boolean;
+    };
+
+    if (!section || !isSectionKey(section)) {
+      return NextResponse.json(
+        { error: `section must be one of: ${SECTION_KEYS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (!patient?.patientInfo) {
+      return NextResponse.json(
+        { error: "Patient source data is required" },
+        { status: 400 }
+      );
+    }
+
+    const parsedReport = ReportSchema.safeParse(migrateReport(reportInput));
+    if (!parsedReport.success) {
+      return NextResponse.json(
+        { error: "Invalid report data", details: parsedReport.error.issues },
+        { status: 400 }
+      );
+    }
+
+    // Placeholders stand in for the identifiers, in the source inputs and in the
+    // report alike. They are masked as entered (plus the other written forms of
+    // the date of birth) and restored with the date of birth in the house format.
+    const { dates } = normalizePatientDates(patient.patientInfo);
+    const patientInfo = dates
+      ? { ...patient.patientInfo, dateOfBirth: dates.dateOfBirth, dateOfReport: dates.dateOfReport }
+      : patient.patientInfo;
+    const { content: userContent } = await deidentifyContent(
+      await buildReportUserContent({ ...patient, patientInfo }),
+      patient.patientInfo,
+      { blurImages: blurImages === true }
+    );
+
+    // Same rules as full generation, followed by the section request
+    const systemPrompt = await renderPrompt(
+      "report-system",
+      { ...reportPromptVariables(), fromImage: false },
+      promptVersion
+    );
+    const sectionPrompt = await renderPrompt("report-section", {
+      section,
+      hasInstructions: Boolean(instructions?.trim()),
+      instructions: instructions?.trim() ?? "",
+      report: JSON.stringify(deidentifyReport(parsedReport.data, patient.patientInfo), null, 2),
+    });
+
+    const regeneration = await completeStructured(
+      getLlmProvider(),
+      {
+        messages: [
+          {
+            role: "system",
+            content: systemPrompt.text,
+          },
+          {
+            role: "user",
+            content: [
+              ...userContent,
+              { type: "text", text: sectionPrompt.text },
+            ],
+          },
+        ],
+        responseFormat: sectionResponseFormat(section),
+      },
+      sectionResponseSchema(section),
+      {
+        cache: {
+          promptVersion: `${systemPrompt.id}+${sectionPrompt.id}`,
+          bypass: bypassCache === true,
+        },
+      }
+    );
+
+    const { data, attempts, usage, cached } = regeneration;
+    await recordDailyUsage("regenerate-section", providerCalls(regeneration), usage);
+
+    // Payer constants (e.g. mandatory medications) still apply to the new section
+    const { report, corrections } = enforceReportRules(
+      setSection(parsedReport.data, section, reidentifyValue(data.value, patientInfo))
+    );
+
+    return NextResponse.json({
+      success: true,
+      section,
+      value: getSection(report, section),
+      // Attributions of the replaced text no longer hold, so that section's are
+      // dropped; its new sentences show as unattributed
+      sourceAttributions: report.sourceAttributions.filter(
+        (attribution) => attribution.section !== section
+      ),
+      // Only corrections to the regenerated section; the rest of the report is not returned
+      corrections: corrections.filter((correction) => correction.field.startsWith(section)),
+      promptVersion: systemPrompt.id,
+      attempts,
+      usage,
+      cached,
+    });
+
+  } catch (error) {
+    console.error("Error regenerating section:", error);
+
+    if (error instanceof PromptVersionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    if (error instanceof LlmCallError) {
+      await recordDailyUsage("regenerate-section", providerCalls(error), error.usage);
+      return NextResponse.json(
+        {
+          error: "Failed to regenerate section",
+          message: error.message,
+          attempts: error.attempts,
+          usage: error.usage
+        },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: "Failed to regenerate section",
+        message: (error as Error).message
+      },
+      { status: 500 }
+    );
+  }
+}
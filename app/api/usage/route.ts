@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { readDailyUsage } from "@/lib/llm/usage";
+
+export async function GET(request: NextRequest) {
+  const date =
+    request.nextUrl.searchParams.get("date") || new Date().toISOString().split("T")[0];
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return NextResponse.json(
+      { error: "date must be formatted YYYY-MM-DD" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json({
+      success: true,
+      usage: (await readDailyUsage(date)) ?? null,
+    });
+  } catch (error) {
+    console.error("Error reading usage:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to read usage",
+        message: (error as Error).message
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,31 +1,63 @@
 "use client";
 
-import { useState } from "react";
-import type { ReportData } from "@/lib/schema";
+import { useEffect, useRef, useState } from "react";
+import {
+  ReportSchema,
+  type BoundingRegion,
+  type CriticFinding,
+  type DemographicField,
+  type ReportData,
+} from "@/lib/schema";
+import {
+  DEMOGRAPHIC_FIELDS,
+  lowConfidenceFields,
+  type FieldConfidences,
+} from "@/lib/demographics";
+import { migrateReport } from "@/lib/reportMigrations";
+import { flagVitalSigns } from "@/lib/vitalSigns";
+import { validateDiagnosisCodes, type Icd10Code } from "@/lib/icd10";
+import type { TokenUsage } from "@/lib/llm/usage";
+import type { BatchEvent, BatchReportResult, PatientStatus } from "@/lib/batchEvents";
+import { SECTION_KEYS, setSection, type SectionKey } from "@/lib/reportSections";
+import { attributeSentences, type AttributedSection } from "@/lib/attribution";
+import { ATTACHMENT_TYPES, type AttachmentType, type PatientData } from "@/lib/reportInputs";
+import { normalizePatientDates } from "@/lib/dates";
+import type { Letterhead } from "@/lib/letterheads";
+import type { PhysicianSummary } from "@/lib/physicians";
+import { reportHash, type ReportApproval } from "@/lib/reportApproval";
+import { DEFAULT_MARGINS, type LetterheadMargins, type PageMargins } from "@/lib/pageMargins";
 
-interface PatientInfo {
+type PatientInfo = ReportData["patientInformation"] & {
   id: string;
-  name: string;
-  dateOfBirth: string;
-  gender: string;
-  mrn: string;
-  dateOfReport: string;
-  hospital: string;
   extractionError?: string;
-}
+  fieldConfidence?: FieldConfidences;
+  // Source document and, for list extraction, where the patient's row is on it
+  imageIndex?: number;
+  region?: BoundingRegion | null;
+};
 
 interface PatientWithClinicalData extends PatientInfo {
   clinicalText: string;
-  clinicalImage: File | null;
+  clinicalAttachments: AttachmentFile[];
+  // Low-confidence demographics the reviewer has checked
+  confirmedFields: DemographicField[];
 }
 
-interface ReportResult {
-  patientId: string;
-  patientName: string;
-  report: ReportData | null;
+interface AttachmentFile {
+  id: string;
+  type: AttachmentType;
+  file: File;
+}
+
+// A batch result plus the editable JSON shown in the review step
+interface ReportResult extends BatchReportResult {
+  jsonString: string;
+  approval?: ApprovalState;
+}
+
+// A physician's sign-off, with the report JSON as it was when approved
+interface ApprovalState extends ReportApproval {
   jsonString: string;
-  status: "success" | "error";
-  error?: string;
 }
 
 interface PdfResult {
@@ -35,10 +67,125 @@ interface PdfResult {
   pdfFilename: string;
   docxPath?: string;
   docxFilename?: string;
+  signed: boolean;
+  approval: (ReportApproval & { doctorName: string }) | null;
   status: "success" | "error";
   error?: string;
 }
 
+interface SectionRequest {
+  section: SectionKey;
+  instructions: string;
+}
+
+const DEFAULT_SECTION_REQUEST: SectionRequest = { section: "conclusion", instructions: "" };
+
+// Code lookup for one diagnosis, keyed by patient id and diagnosis index
+interface CodeSearch {
+  query: string;
+  results: Icd10Code[];
+}
+
+const EMPTY_CODE_SEARCH: CodeSearch = { query: "", results: [] };
+
+const ATTRIBUTED_SECTIONS: Array<{ key: AttributedSection; title: string }> = [
+  { key: "clinicalHistory", title: "Clinical History" },
+  { key: "clinicalNotes", title: "Clinical Notes" },
+];
+
+const CRITIC_SEVERITY_CLASSES: Record<CriticFinding["severity"], string> = {
+  error: "text-red-700",
+  warning: "text-yellow-700",
+  info: "text-gray-600",
+};
+
+const STATUS_LABELS: Record<PatientStatus, { label: string; className: string }> = {
+  queued: { label: "Queued", className: "text-gray-600 bg-gray-100" },
+  extracting: { label: "Reading attachments", className: "text-amber-700 bg-amber-50" },
+  generating: { label: "Generating", className: "text-indigo-700 bg-indigo-50" },
+  validated: { label: "Ready for review", className: "text-green-700 bg-green-50" },
+  failed: { label: "Failed", className: "text-red-700 bg-red-50" },
+};
+
+// Calls onEvent for each line of a newline-delimited JSON stream
+async function readNdjson<T>(body: ReadableStream<Uint8Array>, onEvent: (event: T) => void) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    lines.filter((line) => line.trim()).forEach((line) => onEvent(JSON.parse(line)));
+  }
+
+  if (buffer.trim()) onEvent(JSON.parse(buffer));
+}
+
+function formatUsage(usage: TokenUsage): string {
+  const cost = usage.costUsd === null ? "cost unknown" : `$${usage.costUsd.toFixed(4)}`;
+  return `${usage.totalTokens.toLocaleString()} tokens, ${cost}`;
+}
+
+// Crops a patient's row out of the uploaded list image so it can be checked
+function RegionPreview({ src, region }: { src: string; region: BoundingRegion }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      const sx = region.x * image.naturalWidth;
+      const sy = region.y * image.naturalHeight;
+      canvas.width = Math.max(1, Math.round(region.width * image.naturalWidth));
+      canvas.height = Math.max(1, Math.round(region.height * image.naturalHeight));
+      canvas.getContext("2d")?.drawImage(image, -sx, -sy);
+    };
+    image.src = src;
+  }, [src, region]);
+
+  return <canvas ref={canvasRef} className="max-w-full border border-gray-200 rounded" />;
+}
+
+// Parses the (possibly hand-edited) report JSON in the review step
+function parseReportJson(jsonString: string): ReportData | null {
+  try {
+    const result = ReportSchema.safeParse(migrateReport(JSON.parse(jsonString)));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
+
+// Editing the report after approval voids the approval
+function isApproved(report: ReportResult): boolean {
+  return report.approval !== undefined && report.approval.jsonString === report.jsonString;
+}
+
+interface LetterheadUpload {
+  name: string;
+  firstPage: File | null;
+  continuationPage: File | null;
+  margins: LetterheadMargins;
+}
+
+const EMPTY_LETTERHEAD_UPLOAD: LetterheadUpload = {
+  name: "",
+  firstPage: null,
+  continuationPage: null,
+  margins: DEFAULT_MARGINS,
+};
+
+const LETTERHEAD_PAGES: Array<{ key: keyof LetterheadMargins; label: string }> = [
+  { key: "first", label: "First page" },
+  { key: "continuation", label: "Continuation pages" },
+];
+
 type WorkflowStep = "upload" | "clinical-data" | "review" | "pdf-results";
 
 export default function Home() {
@@ -47,15 +194,33 @@ export default function Home() {
 
   // Step 1: Upload state
   const [patientImages, setPatientImages] = useState<File[]>([]);
+  const [extractionMode, setExtractionMode] = useState<"single" | "list">("single");
   const [extracting, setExtracting] = useState(false);
+  // Object URLs of the uploaded images (null for PDFs), by document index
+  const [sourceUrls, setSourceUrls] = useState<Array<string | null>>([]);
+  const [extractionWarnings, setExtractionWarnings] = useState<string[]>([]);
 
   // Step 2: Clinical data state
   const [patients, setPatients] = useState<PatientWithClinicalData[]>([]);
   const [generating, setGenerating] = useState(false);
+  const [bypassCache, setBypassCache] = useState(false);
+  const [runCritic, setRunCritic] = useState(false);
+  const [blurImages, setBlurImages] = useState(false);
 
   // Step 3: Review state
   const [reports, setReports] = useState<ReportResult[]>([]);
+  const [batchUsage, setBatchUsage] = useState<TokenUsage | null>(null);
+  const [progress, setProgress] = useState<Record<string, PatientStatus>>({});
+  const [sectionRequests, setSectionRequests] = useState<Record<string, SectionRequest>>({});
+  const [codeSearches, setCodeSearches] = useState<Record<string, CodeSearch>>({});
+  const [regeneratingId, setRegeneratingId] = useState<string | null>(null);
   const [creatingPdfs, setCreatingPdfs] = useState(false);
+  const [letterheads, setLetterheads] = useState<Letterhead[]>([]);
+  const [letterheadId, setLetterheadId] = useState("");
+  const [letterheadUpload, setLetterheadUpload] = useState<LetterheadUpload>(EMPTY_LETTERHEAD_UPLOAD);
+  const [uploadingLetterhead, setUploadingLetterhead] = useState(false);
+  const [physicians, setPhysicians] = useState<PhysicianSummary[]>([]);
+  const [approvers, setApprovers] = useState<Record<string, string>>({});
 
   // Step 4: PDF results state
   const [pdfResults, setPdfResults] = useState<PdfResult[]>([]);
@@ -63,6 +228,19 @@ export default function Home() {
   // Error state
   const [error, setError] = useState<string | null>(null);
 
+  // Stored letterheads and signing physicians, offered when creating PDFs
+  useEffect(() => {
+    if (currentStep !== "review") return;
+    fetch("/api/letterheads")
+      .then((response) => response.json())
+      .then((data) => setLetterheads(data.letterheads ?? []))
+      .catch(() => setLetterheads([]));
+    fetch("/api/physicians")
+      .then((response) => response.json())
+      .then((data) => setPhysicians(data.physicians ?? []))
+      .catch(() => setPhysicians([]));
+  }, [currentStep]);
+
   // Step 1: Extract patient info from images
   const handleExtractPatients = async () => {
     if (patientImages.length === 0) return;
@@ -75,6 +253,7 @@ export default function Home() {
       patientImages.forEach((file) => {
         formData.append("patientImages", file);
       });
+      formData.append("mode", extractionMode);
 
       const response = await fetch("/api/extract-patients", {
         method: "POST",
@@ -92,11 +271,19 @@ export default function Home() {
         (p: PatientInfo) => ({
           ...p,
           clinicalText: "",
-          clinicalImage: null,
+          clinicalAttachments: [],
+          confirmedFields: [],
         })
       );
 
       setPatients(patientsWithClinical);
+      setExtractionWarnings(data.warnings ?? []);
+      sourceUrls.forEach((url) => url && URL.revokeObjectURL(url));
+      setSourceUrls(
+        patientImages.map((file) =>
+          file.type.startsWith("image/") ? URL.createObjectURL(file) : null
+        )
+      );
       setCurrentStep("clinical-data");
     } catch (err: any) {
       setError(err.message);
@@ -105,66 +292,90 @@ export default function Home() {
     }
   };
 
+  // Source inputs sent to the generation routes, with attachments as base64
+  const toPatientData = async (patient: PatientWithClinicalData): Promise<PatientData> => {
+    const clinicalAttachments = await Promise.all(
+      patient.clinicalAttachments.map(async ({ type, file }) => {
+        const buffer = await file.arrayBuffer();
+        const base64 = Buffer.from(buffer).toString("base64");
+        const mimeType = file.type || "image/jpeg";
+        return { type, filename: file.name, dataUrl: `data:${mimeType};base64,${base64}` };
+      })
+    );
+
+    return {
+      patientInfo: {
+        id: patient.id,
+        name: patient.name,
+        dateOfBirth: patient.dateOfBirth,
+        gender: patient.gender,
+        mrn: patient.mrn,
+        dateOfReport: patient.dateOfReport,
+        hospital: patient.hospital,
+      },
+      clinicalText: patient.clinicalText,
+      clinicalAttachments,
+    };
+  };
+
   // Step 2: Generate reports for all patients
   const handleGenerateReports = async () => {
     setGenerating(true);
     setError(null);
+    setReports([]);
+    setBatchUsage(null);
+    setProgress(Object.fromEntries(patients.map((p) => [p.id, "queued" as const])));
 
     try {
-      // Convert clinical images to base64
-      const patientsData = await Promise.all(
-        patients.map(async (patient) => {
-          let clinicalImageBase64: string | undefined;
-
-          if (patient.clinicalImage) {
-            const buffer = await patient.clinicalImage.arrayBuffer();
-            const base64 = Buffer.from(buffer).toString("base64");
-            const mimeType = patient.clinicalImage.type || "image/jpeg";
-            clinicalImageBase64 = `data:${mimeType};base64,${base64}`;
-          }
-
-          return {
-            patientInfo: {
-              id: patient.id,
-              name: patient.name,
-              dateOfBirth: patient.dateOfBirth,
-              gender: patient.gender,
-              mrn: patient.mrn,
-              dateOfReport: patient.dateOfReport,
-              hospital: patient.hospital,
-            },
-            clinicalText: patient.clinicalText,
-            clinicalImageBase64,
-          };
-        })
-      );
+      const patientsData = await Promise.all(patients.map(toPatientData));
 
       const response = await fetch("/api/generate-reports-batch", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          Accept: "application/x-ndjson",
         },
-        body: JSON.stringify({ patients: patientsData }),
+        body: JSON.stringify({
+          patients: patientsData,
+          bypassCache,
+          critic: runCritic,
+          blurImages,
+        }),
       });
 
-      const data = await response.json();
-
-      if (!response.ok) {
+      if (!response.ok || !response.body) {
+        const data = await response.json();
         throw new Error(data.error || "Failed to generate reports");
       }
 
-      // Convert to report results with JSON strings
-      const reportResults: ReportResult[] = data.reports.map((r: any) => ({
-        patientId: r.patientId,
-        patientName: r.patientName,
-        report: r.report,
-        jsonString: r.report ? JSON.stringify(r.report, null, 2) : "",
-        status: r.status,
-        error: r.error,
-      }));
-
-      setReports(reportResults);
-      setCurrentStep("review");
+      // Finished reports move to review while the rest are still generating
+      const order = patients.map((p) => p.id);
+      await readNdjson<BatchEvent>(response.body, (event) => {
+        if (event.type === "error") {
+          throw new Error(event.message || event.error);
+        }
+
+        if (event.type === "done") {
+          setBatchUsage(event.usage);
+          return;
+        }
+
+        setProgress((prev) => ({ ...prev, [event.patientId]: event.status }));
+
+        const result = event.result;
+        if (result) {
+          const reportResult: ReportResult = {
+            ...result,
+            jsonString: result.report ? JSON.stringify(result.report, null, 2) : "",
+          };
+          setReports((prev) =>
+            [...prev, reportResult].sort(
+              (a, b) => order.indexOf(a.patientId) - order.indexOf(b.patientId)
+            )
+          );
+          setCurrentStep("review");
+        }
+      });
     } catch (err: any) {
       setError(err.message);
     } finally {
@@ -194,6 +405,15 @@ export default function Home() {
             return {
               patientId: r.patientId,
               report: parsedReport,
+              // Signature images are only placed on approved, unedited reports
+              approval:
+                r.approval && isApproved(r)
+                  ? {
+                      physicianId: r.approval.physicianId,
+                      approvedAt: r.approval.approvedAt,
+                      reportHash: r.approval.reportHash,
+                    }
+                  : undefined,
             };
           } catch {
             return null;
@@ -213,6 +433,7 @@ export default function Home() {
         body: JSON.stringify({
           reports: reportsToProcess,
           batchTimestamp,
+          letterheadId: letterheadId || undefined,
         }),
       });
 
@@ -231,10 +452,70 @@ export default function Home() {
     }
   };
 
+  // Store a new letterhead and select it
+  const handleUploadLetterhead = async () => {
+    const { name, firstPage, continuationPage, margins } = letterheadUpload;
+    if (!name.trim() || !firstPage) return;
+
+    setUploadingLetterhead(true);
+    setError(null);
+
+    try {
+      const formData = new FormData();
+      formData.append("name", name.trim());
+      formData.append("firstPage", firstPage);
+      if (continuationPage) formData.append("continuationPage", continuationPage);
+      formData.append("margins", JSON.stringify(margins));
+
+      const response = await fetch("/api/letterheads", { method: "POST", body: formData });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to upload letterhead");
+      }
+
+      setLetterheads((prev) =>
+        [...prev, data.letterhead].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setLetterheadId(data.letterhead.id);
+      setLetterheadUpload(EMPTY_LETTERHEAD_UPLOAD);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setUploadingLetterhead(false);
+    }
+  };
+
+  const updateLetterheadMargin = (
+    page: keyof LetterheadMargins,
+    side: keyof PageMargins,
+    value: number
+  ) => {
+    setLetterheadUpload((prev) => ({
+      ...prev,
+      margins: { ...prev.margins, [page]: { ...prev.margins[page], [side]: value } },
+    }));
+  };
+
   // Update patient name
-  const updatePatientName = (patientId: string, newName: string) => {
+  const updatePatientField = (patientId: string, field: DemographicField, value: string) => {
     setPatients((prev) =>
-      prev.map((p) => (p.id === patientId ? { ...p, name: newName } : p))
+      prev.map((p) => (p.id === patientId ? { ...p, [field]: value } : p))
+    );
+  };
+
+  const toggleFieldConfirmed = (patientId: string, field: DemographicField) => {
+    setPatients((prev) =>
+      prev.map((p) =>
+        p.id === patientId
+          ? {
+              ...p,
+              confirmedFields: p.confirmedFields.includes(field)
+                ? p.confirmedFields.filter((f) => f !== field)
+                : [...p.confirmedFields, field],
+            }
+          : p
+      )
     );
   };
 
@@ -245,13 +526,29 @@ export default function Home() {
     );
   };
 
-  // Update patient clinical image
-  const updateClinicalImage = (patientId: string, file: File | null) => {
+  // Clinical attachments, each labeled by document type
+  const updateAttachments = (
+    patientId: string,
+    update: (attachments: AttachmentFile[]) => AttachmentFile[]
+  ) => {
     setPatients((prev) =>
-      prev.map((p) => (p.id === patientId ? { ...p, clinicalImage: file } : p))
+      prev.map((p) =>
+        p.id === patientId ? { ...p, clinicalAttachments: update(p.clinicalAttachments) } : p
+      )
     );
   };
 
+  const addAttachments = (patientId: string, files: File[]) => {
+    updateAttachments(patientId, (attachments) => [
+      ...attachments,
+      ...files.map((file, index) => ({
+        id: `${file.name}-${Date.now()}-${index}`,
+        type: "other" as const,
+        file,
+      })),
+    ]);
+  };
+
   // Update report JSON
   const updateReportJson = (patientId: string, jsonString: string) => {
     setReports((prev) =>
@@ -259,16 +556,174 @@ export default function Home() {
     );
   };
 
+  // Record the physician's approval of the report as it reads now; the server
+  // signs only a report with the same hash
+  const approveReport = async (patientId: string, physicianId: string) => {
+    const report = reports.find((r) => r.patientId === patientId);
+    const parsed = report ? parseReportJson(report.jsonString) : null;
+    if (!report || !parsed) return;
+
+    try {
+      const approval: ApprovalState = {
+        physicianId,
+        approvedAt: new Date().toISOString(),
+        reportHash: await reportHash(parsed),
+        jsonString: report.jsonString,
+      };
+      setReports((prev) =>
+        prev.map((r) => (r.patientId === patientId ? { ...r, approval } : r))
+      );
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const revokeApproval = (patientId: string) => {
+    setReports((prev) =>
+      prev.map((r) => (r.patientId === patientId ? { ...r, approval: undefined } : r))
+    );
+  };
+
+  // Replace a diagnosis code in the report JSON with a suggested code
+  const applyDiagnosisCode = (patientId: string, diagnosisIndex: number, code: string) => {
+    setReports((prev) =>
+      prev.map((r) => {
+        if (r.patientId !== patientId) return r;
+        const parsed = parseReportJson(r.jsonString);
+        if (!parsed) return r;
+        parsed.diagnoses[diagnosisIndex].code = code;
+        return { ...r, jsonString: JSON.stringify(parsed, null, 2) };
+      })
+    );
+  };
+
+  // Look up codes in the local ICD-10-CM list for a diagnosis under review
+  const searchDiagnosisCodes = async (key: string) => {
+    const query = codeSearches[key]?.query.trim();
+    if (!query) return;
+
+    try {
+      const response = await fetch(`/api/icd10/search?q=${encodeURIComponent(query)}&limit=10`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to search diagnosis codes");
+      }
+
+      setCodeSearches((prev) => ({ ...prev, [key]: { query, results: data.results } }));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  // Regenerate one section of a report, keeping the rest of the (edited) JSON
+  const handleRegenerateSection = async (patientId: string) => {
+    const report = reports.find((r) => r.patientId === patientId);
+    const patient = patients.find((p) => p.id === patientId);
+    const parsed = report ? parseReportJson(report.jsonString) : null;
+    if (!report || !patient || !parsed) {
+      setError("Fix the report JSON before regenerating a section");
+      return;
+    }
+
+    const { section, instructions } = sectionRequests[patientId] ?? DEFAULT_SECTION_REQUEST;
+    setRegeneratingId(patientId);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/regenerate-section", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          report: parsed,
+          patient: await toPatientData(patient),
+          section,
+          instructions,
+          promptVersion: report.promptVersion.split("@")[1],
+          bypassCache: true,
+          blurImages,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || "Failed to regenerate section");
+      }
+
+      const updated = {
+        ...setSection(parsed, section, data.value),
+        sourceAttributions: data.sourceAttributions,
+      };
+      setReports((prev) =>
+        prev.map((r) =>
+          r.patientId === patientId
+            ? {
+                ...r,
+                jsonString: JSON.stringify(updated, null, 2),
+                corrections: [...r.corrections, ...data.corrections],
+              }
+            : r
+        )
+      );
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setRegeneratingId(null);
+    }
+  };
+
   // Reset to start
   const handleReset = () => {
     setCurrentStep("upload");
     setPatientImages([]);
+    sourceUrls.forEach((url) => url && URL.revokeObjectURL(url));
+    setSourceUrls([]);
+    setExtractionWarnings([]);
     setPatients([]);
     setReports([]);
+    setBatchUsage(null);
+    setProgress({});
+    setSectionRequests({});
+    setCodeSearches({});
     setPdfResults([]);
     setError(null);
   };
 
+  // Low-confidence demographics still awaiting confirmation, across all patients
+  const unconfirmedCount = patients.reduce(
+    (count, patient) =>
+      count +
+      lowConfidenceFields(patient.fieldConfidence).filter(
+        (field) => !patient.confirmedFields.includes(field)
+      ).length,
+    0
+  );
+
+  // Patients whose dates are unreadable or impossible, which the batch would reject
+  const invalidDateCount = patients.filter(
+    (patient) => normalizePatientDates(patient).errors
+  ).length;
+
+  // Live per-patient status while a batch is generating
+  const progressList = generating && (
+    <ul className="mb-6 divide-y divide-gray-100 border border-gray-200 rounded-lg">
+      {patients.map((patient) => {
+        const status = STATUS_LABELS[progress[patient.id] ?? "queued"];
+        return (
+          <li key={patient.id} className="flex items-center justify-between px-4 py-2 text-sm">
+            <span className="text-black">{patient.name}</span>
+            <span className={`text-xs px-2 py-1 rounded ${status.className}`}>
+              {status.label}
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-6xl mx-auto">
@@ -326,23 +781,42 @@ export default function Home() {
         {currentStep === "upload" && (
           <div className="bg-white rounded-lg shadow-xl p-8">
             <h2 className="text-2xl font-bold text-black mb-4">
-              Step 1: Upload Patient Information Images
+              Step 1: Upload Patient Information Documents
             </h2>
             <p className="text-black mb-6">
-              Upload up to 10 patient information images. The system will extract patient details from each image.
+              Upload patient information images or PDFs. The system will extract patient details from each document.
             </p>
 
+            <div className="mb-4 flex gap-6 text-sm text-black">
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  checked={extractionMode === "single"}
+                  onChange={() => setExtractionMode("single")}
+                />
+                One patient per document
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  checked={extractionMode === "list"}
+                  onChange={() => setExtractionMode("list")}
+                />
+                Patient lists (ward lists, clinic schedules)
+              </label>
+            </div>
+
             <input
               type="file"
               multiple
-              accept="image/*"
+              accept="image/*,application/pdf"
               onChange={(e) => setPatientImages(Array.from(e.target.files || []))}
               className="block w-full text-sm text-black border border-gray-300 rounded-lg cursor-pointer bg-gray-50 focus:outline-none focus:border-indigo-500 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:text-sm file:font-semibold file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100"
             />
 
             {patientImages.length > 0 && (
               <p className="mt-2 text-sm text-green-600">
-                {patientImages.length} image(s) selected
+                {patientImages.length} document(s) selected
               </p>
             )}
 
@@ -376,6 +850,14 @@ export default function Home() {
               Review patient names and enter clinical information for each patient.
             </p>
 
+            {progressList}
+
+            {extractionWarnings.map((warning) => (
+              <p key={warning} className="mb-4 p-3 text-sm text-yellow-800 bg-yellow-50 border border-yellow-300 rounded-lg">
+                {warning}
+              </p>
+            ))}
+
             <div className="space-y-6 max-h-[600px] overflow-y-auto">
               {patients.map((patient, index) => (
                 <div key={patient.id} className="border border-gray-200 rounded-lg p-4">
@@ -390,16 +872,65 @@ export default function Home() {
                     )}
                   </div>
 
-                  <div className="mb-4">
-                    <label className="block text-sm font-medium text-black mb-1">
-                      Patient Name
-                    </label>
-                    <input
-                      type="text"
-                      value={patient.name}
-                      onChange={(e) => updatePatientName(patient.id, e.target.value)}
-                      className="w-full p-2 text-black placeholder:text-gray-600 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
-                    />
+                  {patient.region && patient.imageIndex !== undefined && (
+                    <div className="mb-4">
+                      <p className="text-xs text-gray-500 mb-1">
+                        From {patientImages[patient.imageIndex]?.name ?? `document ${patient.imageIndex + 1}`}, page {patient.region.page}
+                      </p>
+                      {sourceUrls[patient.imageIndex] && (
+                        <RegionPreview src={sourceUrls[patient.imageIndex]!} region={patient.region} />
+                      )}
+                    </div>
+                  )}
+
+                  <div className="mb-4 grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {DEMOGRAPHIC_FIELDS.map(({ key, label }) => {
+                      const lowConfidence = lowConfidenceFields(patient.fieldConfidence).includes(key);
+                      const confidence = patient.fieldConfidence?.[key];
+                      const { dates, errors: dateErrors } = normalizePatientDates(patient);
+                      const dateError =
+                        key === "dateOfBirth" || key === "dateOfReport" ? dateErrors?.[key] : undefined;
+                      return (
+                        <div
+                          key={key}
+                          className={lowConfidence ? "p-2 bg-yellow-50 border border-yellow-300 rounded-lg" : ""}
+                        >
+                          <label className="block text-sm font-medium text-black mb-1">
+                            {label}
+                            {confidence && (
+                              <span className="ml-2 text-xs font-normal text-gray-500">
+                                {Math.round(confidence.confidence * 100)}% confident
+                              </span>
+                            )}
+                          </label>
+                          <input
+                            type="text"
+                            value={patient[key]}
+                            onChange={(e) => updatePatientField(patient.id, key, e.target.value)}
+                            className="w-full p-2 text-black placeholder:text-gray-600 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                          />
+                          {lowConfidence && (
+                            <>
+                              <p className="mt-1 text-xs text-yellow-800">
+                                Read as: {confidence?.rawText ? `"${confidence.rawText}"` : "not found"}
+                              </p>
+                              <label className="mt-1 flex items-center gap-2 text-xs text-black">
+                                <input
+                                  type="checkbox"
+                                  checked={patient.confirmedFields.includes(key)}
+                                  onChange={() => toggleFieldConfirmed(patient.id, key)}
+                                />
+                                I have checked this value against the source document
+                              </label>
+                            </>
+                          )}
+                          {dateError && <p className="mt-1 text-xs text-red-700">{dateError}</p>}
+                          {key === "dateOfBirth" && dates && (
+                            <p className="mt-1 text-xs text-gray-500">Age {dates.age} at report date</p>
+                          )}
+                        </div>
+                      );
+                    })}
                   </div>
 
                   <div className="mb-4">
@@ -417,12 +948,54 @@ export default function Home() {
 
                   <div>
                     <label className="block text-sm font-medium text-black mb-1">
-                      Clinical Image (Optional)
+                      Clinical Documents (Optional)
                     </label>
+                    {patient.clinicalAttachments.length > 0 && (
+                      <ul className="mb-2 divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                        {patient.clinicalAttachments.map((attachment) => (
+                          <li key={attachment.id} className="flex items-center gap-2 px-3 py-2 text-sm">
+                            <span className="flex-1 truncate text-black">{attachment.file.name}</span>
+                            <select
+                              value={attachment.type}
+                              onChange={(e) =>
+                                updateAttachments(patient.id, (attachments) =>
+                                  attachments.map((a) =>
+                                    a.id === attachment.id
+                                      ? { ...a, type: e.target.value as AttachmentType }
+                                      : a
+                                  )
+                                )
+                              }
+                              className="p-1 text-sm text-black border border-gray-300 rounded"
+                            >
+                              {(Object.keys(ATTACHMENT_TYPES) as AttachmentType[]).map((type) => (
+                                <option key={type} value={type}>
+                                  {ATTACHMENT_TYPES[type]}
+                                </option>
+                              ))}
+                            </select>
+                            <button
+                              onClick={() =>
+                                updateAttachments(patient.id, (attachments) =>
+                                  attachments.filter((a) => a.id !== attachment.id)
+                                )
+                              }
+                              className="text-xs text-red-600 hover:underline"
+                            >
+                              Remove
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
                     <input
                       type="file"
-                      accept="image/*"
-                      onChange={(e) => updateClinicalImage(patient.id, e.target.files?.[0] || null)}
+                      accept="image/*,application/pdf"
+                      multiple
+                      onChange={(e) => {
+                        addAttachments(patient.id, Array.from(e.target.files ?? []));
+                        e.target.value = "";
+                      }}
                       className="block w-full text-sm text-black border border-gray-300 rounded-lg cursor-pointer bg-gray-50"
                     />
                   </div>
@@ -430,7 +1003,45 @@ export default function Home() {
               ))}
             </div>
 
-            <div className="mt-6 flex gap-4">
+            <label className="mt-6 flex items-center gap-2 text-sm text-black">
+              <input
+                type="checkbox"
+                checked={bypassCache}
+                onChange={(e) => setBypassCache(e.target.checked)}
+              />
+              Regenerate every report (ignore cached results)
+            </label>
+            <label className="mt-2 flex items-center gap-2 text-sm text-black">
+              <input
+                type="checkbox"
+                checked={runCritic}
+                onChange={(e) => setRunCritic(e.target.checked)}
+              />
+              Audit each report against the reporting rules (second LLM pass)
+            </label>
+            <label className="mt-2 flex items-center gap-2 text-sm text-black">
+              <input
+                type="checkbox"
+                checked={blurImages}
+                onChange={(e) => setBlurImages(e.target.checked)}
+              />
+              Blur the patient banner (top of each clinical image) before sending
+            </label>
+
+            {unconfirmedCount > 0 && (
+              <p className="mt-4 text-sm text-yellow-800">
+                Confirm {unconfirmedCount} low-confidence field(s) highlighted above before
+                generating reports.
+              </p>
+            )}
+            {invalidDateCount > 0 && (
+              <p className="mt-4 text-sm text-red-700">
+                Fix the dates of {invalidDateCount} patient(s) before generating reports. Use
+                DD/MM/YYYY, DD-MMM-YYYY, YYYY-MM-DD or a Hijri date marked AH.
+              </p>
+            )}
+
+            <div className="mt-4 flex gap-4">
               <button
                 onClick={() => setCurrentStep("upload")}
                 className="px-6 py-3 border border-gray-300 rounded-lg font-semibold text-black hover:bg-gray-50"
@@ -439,7 +1050,7 @@ export default function Home() {
               </button>
               <button
                 onClick={handleGenerateReports}
-                disabled={generating}
+                disabled={generating || unconfirmedCount > 0 || invalidDateCount > 0}
                 className="flex-1 bg-indigo-600 text-white py-3 px-6 rounded-lg font-semibold hover:bg-indigo-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors duration-200 flex items-center justify-center"
               >
                 {generating ? (
@@ -467,36 +1078,450 @@ export default function Home() {
             <p className="text-black mb-6">
               Review and edit the generated reports before creating PDFs.
             </p>
+            {batchUsage && (
+              <p className="text-sm text-gray-600 mb-6 -mt-4">
+                Batch usage: {formatUsage(batchUsage)}
+              </p>
+            )}
+
+            {progressList}
 
             <div className="space-y-6 max-h-[600px] overflow-y-auto">
-              {reports.map((report) => (
-                <div key={report.patientId} className="border border-gray-200 rounded-lg p-4">
-                  <div className="flex items-center justify-between mb-4">
-                    <h3 className="text-lg font-semibold text-black">
-                      {report.patientName}
-                    </h3>
-                    {report.status === "error" ? (
-                      <span className="text-xs text-red-600 bg-red-50 px-2 py-1 rounded">
-                        Error: {report.error}
-                      </span>
-                    ) : (
-                      <span className="text-xs text-green-600 bg-green-50 px-2 py-1 rounded">
-                        Success
-                      </span>
+              {reports.map((report) => {
+                const parsedReport =
+                  report.status === "success" ? parseReportJson(report.jsonString) : null;
+                const vitalFlags = parsedReport ? flagVitalSigns(parsedReport.vitalSigns) : [];
+                const codeIssues = parsedReport
+                  ? validateDiagnosisCodes(parsedReport.diagnoses)
+                  : [];
+                // Quotes can only be checked against text when no attachment was read
+                const source = patients.find((p) => p.id === report.patientId);
+                const sourceText =
+                  source && source.clinicalAttachments.length === 0 ? source.clinicalText : undefined;
+                // Default to the physician the report is signed by
+                const approverId =
+                  approvers[report.patientId] ??
+                  physicians.find((p) => p.doctorName === parsedReport?.signature.doctorName)?.id ??
+                  "";
+                const approvedBy = isApproved(report)
+                  ? physicians.find((p) => p.id === report.approval?.physicianId)
+                  : undefined;
+
+                return (
+                  <div key={report.patientId} className="border border-gray-200 rounded-lg p-4">
+                    <div className="flex items-center justify-between mb-4">
+                      <div>
+                        <h3 className="text-lg font-semibold text-black">
+                          {report.patientName}
+                        </h3>
+                        <p className="text-xs text-gray-500">
+                          Prompt: {report.promptVersion}
+                          {report.cached && " · from cache"}
+                          {report.usage && ` · ${formatUsage(report.usage)}`}
+                        </p>
+                      </div>
+                      {report.status === "error" ? (
+                        <span className="text-xs text-red-600 bg-red-50 px-2 py-1 rounded">
+                          Error: {report.error}
+                        </span>
+                      ) : (
+                        <span className="text-xs text-green-600 bg-green-50 px-2 py-1 rounded">
+                          Success
+                        </span>
+                      )}
+                    </div>
+
+                    {report.attempts.length > 0 && (
+                      <details className="mb-3 text-xs text-gray-600">
+                        <summary>
+                          {report.status === "success"
+                            ? `Succeeded after ${report.attempts.length} failed attempt(s)`
+                            : `${report.attempts.length} failed attempt(s)`}
+                        </summary>
+                        <ul className="mt-1 list-disc list-inside">
+                          {report.attempts.map((attempt) => (
+                            <li key={attempt.attempt}>
+                              Attempt {attempt.attempt} ({attempt.kind}
+                              {attempt.status ? ` ${attempt.status}` : ""}): {attempt.message}
+                            </li>
+                          ))}
+                        </ul>
+                      </details>
+                    )}
+
+                    {report.corrections.length > 0 && (
+                      <div className="mb-3 p-3 bg-blue-50 border border-blue-200 rounded-lg">
+                        <p className="text-sm font-semibold text-blue-800 mb-1">
+                          Automatic corrections:
+                        </p>
+                        <ul className="text-sm text-blue-800 list-disc list-inside">
+                          {report.corrections.map((correction, index) => (
+                            <li key={index}>
+                              {correction.field}:{" "}
+                              {correction.from === null
+                                ? `added "${correction.to}"`
+                                : `"${correction.from}" → "${correction.to}"`}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+
+                    {report.criticError && (
+                      <p className="mb-3 text-xs text-red-600">
+                        Rule audit failed: {report.criticError}
+                      </p>
+                    )}
+
+                    {report.criticFindings && (
+                      <div className="mb-3 p-3 bg-orange-50 border border-orange-200 rounded-lg">
+                        <p className="text-sm font-semibold text-orange-800 mb-1">
+                          {report.criticFindings.length === 0
+                            ? "Rule audit: no findings"
+                            : "Rule audit findings:"}
+                        </p>
+                        <ul className="text-sm text-orange-800 space-y-2">
+                          {report.criticFindings.map((finding, index) => (
+                            <li key={index}>
+                              <span
+                                className={`mr-2 text-xs font-semibold uppercase ${
+                                  CRITIC_SEVERITY_CLASSES[finding.severity]
+                                }`}
+                              >
+                                {finding.severity}
+                              </span>
+                              <span className="font-mono text-xs">
+                                {finding.section} · {finding.rule}
+                              </span>
+                              <p>{finding.finding}</p>
+                              <p className="text-orange-700">Suggested fix: {finding.suggestedFix}</p>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+
+                    {parsedReport && parsedReport.sourceAttributions.length > 0 && (
+                      <details className="mb-3 p-3 bg-gray-50 border border-gray-200 rounded-lg">
+                        <summary className="text-sm font-semibold text-black cursor-pointer">
+                          Source attribution
+                          <span className="ml-2 text-xs font-normal bg-amber-100 text-amber-900 px-1 rounded">
+                            highlighted = inferred by rule
+                          </span>
+                        </summary>
+                        {ATTRIBUTED_SECTIONS.map(({ key, title }) => (
+                          <div key={key} className="mt-2">
+                            <p className="text-xs font-semibold text-gray-600">{title}</p>
+                            <p className="text-sm text-black">
+                              {attributeSentences(parsedReport, key, sourceText).map(
+                                ({ sentence, attribution, quoteNotFound }, index) => (
+                                  <span
+                                    key={index}
+                                    title={
+                                      !attribution
+                                        ? "No attribution (edited or regenerated)"
+                                        : attribution.source === "rule"
+                                        ? `Inferred by rule: ${attribution.rule}`
+                                        : `Source: "${attribution.quote}"`
+                                    }
+                                    className={
+                                      !attribution
+                                        ? "text-gray-500 italic"
+                                        : attribution.source === "rule"
+                                        ? "bg-amber-100 text-amber-900"
+                                        : quoteNotFound
+                                        ? "underline decoration-red-500 decoration-wavy"
+                                        : ""
+                                    }
+                                  >
+                                    {sentence}{" "}
+                                  </span>
+                                )
+                              )}
+                            </p>
+                          </div>
+                        ))}
+                        <p className="mt-2 text-xs text-gray-500">
+                          Hover a sentence to see its source quote. Wavy underline: quote not
+                          found in the clinical text; grey: no attribution.
+                        </p>
+                      </details>
+                    )}
+
+                    {vitalFlags.length > 0 && (
+                      <div className="mb-3 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+                        <p className="text-sm font-semibold text-yellow-800 mb-1">
+                          Out-of-range vital signs:
+                        </p>
+                        <ul className="text-sm text-yellow-800 list-disc list-inside">
+                          {vitalFlags.map((flag) => (
+                            <li key={flag.label}>
+                              {flag.label}: {flag.value} ({flag.direction}, normal {flag.normalRange})
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+
+                    {codeIssues.length > 0 && (
+                      <div className="mb-3 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+                        <p className="text-sm font-semibold text-yellow-800 mb-1">
+                          Diagnosis codes to check:
+                        </p>
+                        <ul className="text-sm text-yellow-800 space-y-2">
+                          {codeIssues.map((issue) => {
+                            const searchKey = `${report.patientId}:${issue.diagnosisIndex}`;
+                            const search = codeSearches[searchKey] ?? EMPTY_CODE_SEARCH;
+                            const candidates = [
+                              ...issue.suggestions,
+                              ...search.results.filter(
+                                (result) => !issue.suggestions.some((s) => s.code === result.code)
+                              ),
+                            ];
+                            return (
+                              <li key={`${issue.diagnosisIndex}-${issue.kind}`}>
+                                <p className={issue.kind === "unlisted" ? "text-gray-700" : ""}>
+                                  {issue.message}
+                                </p>
+                                {issue.kind === "unlisted" && (
+                                  <div className="mt-1 flex gap-2">
+                                    <input
+                                      type="text"
+                                      value={search.query}
+                                      onChange={(e) =>
+                                        setCodeSearches((prev) => ({
+                                          ...prev,
+                                          [searchKey]: { ...search, query: e.target.value },
+                                        }))
+                                      }
+                                      onKeyDown={(e) => {
+                                        if (e.key === "Enter") searchDiagnosisCodes(searchKey);
+                                      }}
+                                      placeholder="Search codes or descriptions"
+                                      className="flex-1 p-1 text-xs text-black border border-gray-300 rounded"
+                                    />
+                                    <button
+                                      onClick={() => searchDiagnosisCodes(searchKey)}
+                                      disabled={!search.query.trim()}
+                                      className="text-xs px-2 py-1 bg-white border border-yellow-300 rounded hover:bg-yellow-100 disabled:opacity-50"
+                                    >
+                                      Search
+                                    </button>
+                                  </div>
+                                )}
+                                {candidates.length > 0 && (
+                                  <div className="mt-1 flex flex-wrap gap-2">
+                                    {candidates.map((suggestion) => (
+                                      <button
+                                        key={suggestion.code}
+                                        onClick={() =>
+                                          applyDiagnosisCode(
+                                            report.patientId,
+                                            issue.diagnosisIndex,
+                                            suggestion.code
+                                          )
+                                        }
+                                        title={suggestion.description}
+                                        className="text-xs px-2 py-1 bg-white border border-yellow-300 rounded hover:bg-yellow-100"
+                                      >
+                                        Use {suggestion.code}
+                                      </button>
+                                    ))}
+                                  </div>
+                                )}
+                              </li>
+                            );
+                          })}
+                        </ul>
+                      </div>
+                    )}
+
+                    {report.status === "success" && (
+                      <div className="mb-3 flex flex-wrap items-center gap-2">
+                        <select
+                          value={(sectionRequests[report.patientId] ?? DEFAULT_SECTION_REQUEST).section}
+                          onChange={(e) =>
+                            setSectionRequests((prev) => ({
+                              ...prev,
+                              [report.patientId]: {
+                                ...(prev[report.patientId] ?? DEFAULT_SECTION_REQUEST),
+                                section: e.target.value as SectionKey,
+                              },
+                            }))
+                          }
+                          className="p-2 text-sm text-black border border-gray-300 rounded-lg"
+                        >
+                          {SECTION_KEYS.map((key) => (
+                            <option key={key} value={key}>
+                              {key}
+                            </option>
+                          ))}
+                        </select>
+                        <input
+                          type="text"
+                          value={(sectionRequests[report.patientId] ?? DEFAULT_SECTION_REQUEST).instructions}
+                          onChange={(e) =>
+                            setSectionRequests((prev) => ({
+                              ...prev,
+                              [report.patientId]: {
+                                ...(prev[report.patientId] ?? DEFAULT_SECTION_REQUEST),
+                                instructions: e.target.value,
+                              },
+                            }))
+                          }
+                          placeholder="Instructions (optional)"
+                          className="flex-1 p-2 text-sm text-black placeholder:text-gray-600 border border-gray-300 rounded-lg"
+                        />
+                        <button
+                          onClick={() => handleRegenerateSection(report.patientId)}
+                          disabled={regeneratingId !== null}
+                          className="px-3 py-2 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:bg-gray-400"
+                        >
+                          {regeneratingId === report.patientId ? "Regenerating..." : "Regenerate section"}
+                        </button>
+                      </div>
+                    )}
+
+                    {report.status === "success" && physicians.length > 0 && (
+                      <div className="mb-3 flex flex-wrap items-center gap-2 text-sm text-black">
+                        {approvedBy ? (
+                          <>
+                            <span className="px-2 py-1 rounded bg-green-100 text-green-800">
+                              Approved by {approvedBy.doctorName}; signature
+                              {approvedBy.hasStamp ? " and stamp" : ""} will be placed
+                            </span>
+                            <button
+                              onClick={() => revokeApproval(report.patientId)}
+                              className="px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
+                            >
+                              Revoke
+                            </button>
+                          </>
+                        ) : (
+                          <>
+                            {report.approval && (
+                              <span className="text-amber-700">Edited after approval; approve again to sign.</span>
+                            )}
+                            <select
+                              value={approverId}
+                              onChange={(e) =>
+                                setApprovers((prev) => ({ ...prev, [report.patientId]: e.target.value }))
+                              }
+                              className="p-2 text-sm text-black border border-gray-300 rounded-lg"
+                            >
+                              <option value="">Select approving physician</option>
+                              {physicians.map((physician) => (
+                                <option key={physician.id} value={physician.id}>
+                                  {physician.doctorName}
+                                </option>
+                              ))}
+                            </select>
+                            <button
+                              onClick={() => approveReport(report.patientId, approverId)}
+                              disabled={!approverId || !parsedReport}
+                              className="px-3 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400"
+                            >
+                              Approve and sign
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    )}
+
+                    {report.status === "success" && (
+                      <textarea
+                        rows={12}
+                        value={report.jsonString}
+                        onChange={(e) => updateReportJson(report.patientId, e.target.value)}
+                        className="w-full p-3 font-mono text-sm !text-black bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                        style={{ color: '#000000' }}
+                      />
                     )}
                   </div>
+                );
+              })}
+            </div>
 
-                  {report.status === "success" && (
-                    <textarea
-                      rows={12}
-                      value={report.jsonString}
-                      onChange={(e) => updateReportJson(report.patientId, e.target.value)}
-                      className="w-full p-3 font-mono text-sm !text-black bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
-                      style={{ color: '#000000' }}
+            <div className="mt-6 p-4 border border-gray-200 rounded-lg">
+              <label className="block text-sm font-medium text-black mb-1">
+                Letterhead for PDFs
+              </label>
+              <select
+                value={letterheadId}
+                onChange={(e) => setLetterheadId(e.target.value)}
+                className="w-full p-2 text-sm text-black border border-gray-300 rounded-lg"
+              >
+                <option value="">None (blank space for printing on letterhead paper)</option>
+                {letterheads.map((letterhead) => (
+                  <option key={letterhead.id} value={letterhead.id}>
+                    {letterhead.name}
+                  </option>
+                ))}
+              </select>
+
+              <details className="mt-3">
+                <summary className="text-sm text-indigo-700 cursor-pointer">Upload a letterhead</summary>
+                <div className="mt-3 space-y-3 text-sm text-black">
+                  <input
+                    type="text"
+                    value={letterheadUpload.name}
+                    onChange={(e) => setLetterheadUpload((prev) => ({ ...prev, name: e.target.value }))}
+                    placeholder="Letterhead name"
+                    className="w-full p-2 text-black placeholder:text-gray-600 border border-gray-300 rounded-lg"
+                  />
+                  <label className="block">
+                    First page PDF
+                    <input
+                      type="file"
+                      accept="application/pdf"
+                      onChange={(e) =>
+                        setLetterheadUpload((prev) => ({ ...prev, firstPage: e.target.files?.[0] ?? null }))
+                      }
+                      className="block mt-1"
                     />
-                  )}
+                  </label>
+                  <label className="block">
+                    Continuation page PDF (optional, defaults to the first page)
+                    <input
+                      type="file"
+                      accept="application/pdf"
+                      onChange={(e) =>
+                        setLetterheadUpload((prev) => ({
+                          ...prev,
+                          continuationPage: e.target.files?.[0] ?? null,
+                        }))
+                      }
+                      className="block mt-1"
+                    />
+                  </label>
+                  {LETTERHEAD_PAGES.map(({ key, label }) => (
+                    <div key={key}>
+                      <p className="font-medium">{label} margins (points)</p>
+                      <div className="mt-1 grid grid-cols-4 gap-2">
+                        {(["top", "bottom", "left", "right"] as const).map((side) => (
+                          <label key={side} className="text-xs">
+                            {side}
+                            <input
+                              type="number"
+                              min={0}
+                              value={letterheadUpload.margins[key][side]}
+                              onChange={(e) => updateLetterheadMargin(key, side, Number(e.target.value))}
+                              className="w-full p-1 text-sm text-black border border-gray-300 rounded"
+                            />
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                  <button
+                    onClick={handleUploadLetterhead}
+                    disabled={uploadingLetterhead || !letterheadUpload.name.trim() || !letterheadUpload.firstPage}
+                    className="px-3 py-2 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:bg-gray-400"
+                  >
+                    {uploadingLetterhead ? "Uploading..." : "Save letterhead"}
+                  </button>
                 </div>
-              ))}
+              </details>
             </div>
 
             <div className="mt-6 flex gap-4">
@@ -508,7 +1533,11 @@ export default function Home() {
               </button>
               <button
                 onClick={handleCreatePdfs}
-                disabled={creatingPdfs || reports.filter((r) => r.status === "success").length === 0}
+                disabled={
+                  creatingPdfs ||
+                  generating ||
+                  reports.filter((r) => r.status === "success").length === 0
+                }
                 className="flex-1 bg-indigo-600 text-white py-3 px-6 rounded-lg font-semibold hover:bg-indigo-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors duration-200 flex items-center justify-center"
               >
                 {creatingPdfs ? (
@@ -559,6 +1588,14 @@ export default function Home() {
                               <span className="font-medium">DOCX:</span> {result.docxFilename}
                             </p>
                           )}
+                          <p className="text-sm text-black">
+                            <span className="font-medium">Signature:</span>{" "}
+                            {result.approval
+                              ? `placed for ${result.approval.doctorName}, approved ${new Date(
+                                  result.approval.approvedAt
+                                ).toLocaleString()}`
+                              : "not signed, left blank for signing"}
+                          </p>
                           <p className="text-sm text-black mt-1 text-xs text-gray-500">
                             Saved to: {result.pdfPath.split('/').slice(0, -1).join('/')}
                           </p>
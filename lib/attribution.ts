@@ -0,0 +1,52 @@
+import type { ReportData, SourceAttribution } from "./schema";
+
+export type AttributedSection = SourceAttribution["section"];
+
+export interface AttributedSentence {
+  sentence: string;
+  // Missing when the sentence was edited or regenerated after generation
+  attribution?: SourceAttribution;
+  // Input quote that could not be found in the clinical text
+  quoteNotFound: boolean;
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+// Splits on sentence-ending punctuation, keeping decimals such as "37.5" intact.
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+(?=[A-Z0-9"(])/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Pairs each sentence of a section with its attribution. Quotes are checked
+ * against the clinical text when one is given; quotes read from an image
+ * cannot be checked, so pass no text for image-only input.
+ */
+export function attributeSentences(
+  report: ReportData,
+  section: AttributedSection,
+  clinicalText?: string
+): AttributedSentence[] {
+  const attributions = report.sourceAttributions.filter((a) => a.section === section);
+  const source = clinicalText ? normalize(clinicalText) : null;
+
+  return splitSentences(report[section]).map((sentence) => {
+    const attribution = attributions.find(
+      (a) => normalize(a.sentence) === normalize(sentence)
+    );
+    return {
+      sentence,
+      attribution,
+      quoteNotFound:
+        source !== null &&
+        attribution?.source === "input" &&
+        attribution.quote !== null &&
+        !source.includes(normalize(attribution.quote)),
+    };
+  });
+}
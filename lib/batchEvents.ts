@@ -0,0 +1,50 @@
+import type { AttemptError } from "./llm/structuredCall";
+import type { TokenUsage } from "./llm/usage";
+import type { RuleCorrection } from "./reportRules";
+import type { CriticFinding, ReportData } from "./schema";
+
+export interface BatchReportResult {
+  patientId: string;
+  patientName: string;
+  report: ReportData | null;
+  corrections: RuleCorrection[];
+  promptVersion: string;
+  // Failed LLM attempts, including retries before a success
+  attempts: AttemptError[];
+  // Tokens and cost of this patient's calls, retries included
+  usage: TokenUsage;
+  // Served from the response cache
+  cached: boolean;
+  // Provider calls made for this patient, retries, re-asks and critic included
+  calls: number;
+  // null when the critic pass was not requested or failed
+  criticFindings: CriticFinding[] | null;
+  criticError?: string;
+  status: "success" | "error";
+  error?: string;
+}
+
+// queued: not started; extracting: reading attachments (PDF text, rendered
+// pages) into the prompt, then waiting for a slot in the LLM work pool;
+// generating: report call in flight (critic pass included); validated/failed:
+// final, with the result. A patient only moves forward through these.
+export type PatientStatus = "queued" | "extracting" | "generating" | "validated" | "failed";
+
+/**
+ * One line of the NDJSON stream returned by generate-reports-batch when the
+ * request accepts application/x-ndjson.
+ */
+export type BatchEvent =
+  | {
+      type: "status";
+      patientId: string;
+      status: PatientStatus;
+      result?: BatchReportResult;
+    }
+  | {
+      type: "done";
+      promptVersion: string;
+      criticPromptVersion: string | null;
+      usage: TokenUsage;
+    }
+  | { type: "error"; error: string; message: string };
@@ -0,0 +1,43 @@
+import type { ChatCompletionContentPart } from "openai/resources/chat/completions";
+import { completeStructured, getLlmProvider, providerCalls } from "./llm";
+import { criticReviewResponseFormat } from "./responseFormats";
+import type { RenderedPrompt } from "./prompts";
+import { CriticReviewSchema, type ReportData } from "./schema";
+
+/**
+ * Second LLM pass that audits a finished report against the reporting rules
+ * and the source clinical data it was written from.
+ */
+export async function reviewReport(
+  report: ReportData,
+  source: ChatCompletionContentPart[],
+  criticPrompt: RenderedPrompt,
+  bypassCache = false,
+  signal?: AbortSignal
+) {
+  const result = await completeStructured(
+    getLlmProvider(),
+    {
+      messages: [
+        {
+          role: "system",
+          content: criticPrompt.text,
+        },
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "SOURCE:" },
+            ...source,
+            { type: "text", text: `REPORT:\n${JSON.stringify(report, null, 2)}` },
+          ],
+        },
+      ],
+      responseFormat: criticReviewResponseFormat,
+    },
+    CriticReviewSchema,
+    { cache: { promptVersion: criticPrompt.id, bypass: bypassCache }, signal }
+  );
+
+  const { data, attempts, usage, cached } = result;
+  return { findings: data.findings, attempts, usage, cached, calls: providerCalls(result) };
+}
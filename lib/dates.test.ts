@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatDateOfBirth,
+  formatReportDate,
+  normalizePatientDates,
+  parseClinicalDate,
+  writtenDatePattern,
+} from "./dates";
+
+describe("parseClinicalDate", () => {
+  it.each([
+    ["1956-03-01", "1956-03-01"],
+    ["1956/3/1", "1956-03-01"],
+    ["01/03/1956", "1956-03-01"],
+    ["1-3-1956", "1956-03-01"],
+    ["01.03.1956", "1956-03-01"],
+    ["01-Mar-1956", "1956-03-01"],
+    ["1 March 1956", "1956-03-01"],
+    ["1 Mar. 1956", "1956-03-01"],
+    ["٠١/٠٣/١٩٥٦", "1956-03-01"],
+  ])("reads %s day first", (input, iso) => {
+    expect(parseClinicalDate(input)).toEqual({ iso });
+  });
+
+  it.each([
+    ["18/07/1375 AH", "1956-03-01"],
+    ["18/7/1375هـ", "1956-03-01"],
+    ["1375-07-18 A.H.", "1956-03-01"],
+    // Unmarked, but the year can only be Hijri
+    ["18/07/1375", "1956-03-01"],
+    ["01/09/1447", "2026-02-18"],
+  ])("converts the Hijri date %s with the Umm al-Qura calendar", (input, iso) => {
+    expect(parseClinicalDate(input)).toEqual({ iso });
+  });
+
+  it.each([
+    ["", "Date is missing"],
+    ["Unknown", "Date is missing"],
+    ["31/02/2020", "is not a real calendar date"],
+    ["13/13/2020", "is not a real calendar date"],
+    ["30/13/1440 AH", "is not a valid Hijri date"],
+    ["01 Foo 2020", "has an unknown month name"],
+    ["March 2020", "is not in a recognised date format"],
+    ["2020", "is not in a recognised date format"],
+  ])("rejects %j", (input, error) => {
+    expect(parseClinicalDate(input).error).toContain(error);
+  });
+});
+
+describe("normalizePatientDates", () => {
+  it("returns ISO dates and the age at the report date", () => {
+    expect(
+      normalizePatientDates({ dateOfBirth: "02/03/1956", dateOfReport: "01-Mar-2026" })
+    ).toEqual({ dates: { dateOfBirth: "1956-03-02", dateOfReport: "2026-03-01", age: 69 } });
+  });
+
+  it("reports each unreadable date", () => {
+    expect(normalizePatientDates({ dateOfBirth: "31/02/1956", dateOfReport: "" }).errors).toEqual({
+      dateOfBirth: 'Date of birth: "31/02/1956" is not a real calendar date',
+      dateOfReport: "Date of report: Date is missing",
+    });
+  });
+
+  it.each([
+    ["2026-03-02", "2026-03-01", "Date of birth is after the date of report"],
+    ["1890-01-01", "2026-03-01", "Date of birth gives an age of 136 years"],
+    ["2999-01-01", "3000-01-01", "Date of birth is in the future"],
+  ])("rejects a birth on %s for a report on %s", (dateOfBirth, dateOfReport, error) => {
+    expect(normalizePatientDates({ dateOfBirth, dateOfReport }).errors).toEqual({
+      dateOfBirth: error,
+    });
+  });
+});
+
+describe("house format", () => {
+  it("prints dates as DD Mon YYYY", () => {
+    expect(formatReportDate("2026-03-07")).toBe("07 Mar 2026");
+    expect(formatReportDate("7/3/2026")).toBe("07 Mar 2026");
+  });
+
+  it("leaves unreadable dates as they are", () => {
+    expect(formatReportDate("early 2026")).toBe("early 2026");
+  });
+
+  it("adds the age to the date of birth when both dates are valid", () => {
+    expect(formatDateOfBirth({ dateOfBirth: "1956-03-01", dateOfReport: "2026-03-01" })).toBe(
+      "01 Mar 1956 (age 70)"
+    );
+    expect(formatDateOfBirth({ dateOfBirth: "1956-03-01", dateOfReport: "" })).toBe("01 Mar 1956");
+  });
+});
+
+describe("writtenDatePattern", () => {
+  const pattern = new RegExp(`^(?:${writtenDatePattern("1956-03-01")})$`, "i");
+
+  it.each(["1956-03-01", "1/3/1956", "03.01.1956", "1st March 1956", "Mar 1, 1956", "18/7/1375 AH"])(
+    "matches %s",
+    (written) => {
+      expect(written).toMatch(pattern);
+    }
+  );
+
+  it.each(["1956-03-02", "01/03/1965", "1 May 1956"])("does not match %s", (written) => {
+    expect(written).not.toMatch(pattern);
+  });
+});
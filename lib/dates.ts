@@ -0,0 +1,218 @@
+import type { PatientInfoData } from "./schema";
+
+type DateField = "dateOfBirth" | "dateOfReport";
+
+export type DateErrors = Partial<Record<DateField, string>>;
+
+export type DateResult = { iso: string; error?: undefined } | { iso?: undefined; error: string };
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const HOUSE_MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+// Years in this range can only be Hijri for a living patient
+const HIJRI_YEARS = { min: 1300, max: 1500 };
+const HIJRI_MARKER = /\s*(?:AH|A\.H\.|H|هـ|ه)\s*$/i;
+const MAX_AGE_YEARS = 130;
+const DAY_MS = 86_400_000;
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+function toIso(year: number, month: number, day: number): string {
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+// Date.UTC rolls 31/02 over into March, so a round trip catches impossible days
+function isRealDate(year: number, month: number, day: number): boolean {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return (
+    date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+  );
+}
+
+function hijriParts(date: Date): { year: number; month: number; day: number } | null {
+  try {
+    const parts = new Intl.DateTimeFormat("en-u-ca-islamic-umalqura", {
+      timeZone: "UTC",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+    }).formatToParts(date);
+    const part = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+    return { year: part("year"), month: part("month"), day: part("day") };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Converts a Hijri (Umm al-Qura) date to Gregorian: an arithmetic estimate
+ * from the tabular calendar, corrected against Intl's Umm al-Qura calendar.
+ */
+function hijriToGregorian(year: number, month: number, day: number): DateResult {
+  if (month < 1 || month > 12 || day < 1 || day > 30) {
+    return { error: `${day}/${month}/${year} AH is not a valid Hijri date` };
+  }
+
+  const julianDay =
+    day +
+    Math.ceil(29.5 * (month - 1)) +
+    (year - 1) * 354 +
+    Math.floor((3 + 11 * year) / 30) +
+    1948439.5 -
+    1;
+  // Noon UTC, so the offsets below never straddle a day boundary
+  const noon = (julianDay - 2440587.5) * DAY_MS + DAY_MS / 2;
+  const candidates = [0, -1, 1, -2, 2].map((offset) => new Date(noon + offset * DAY_MS));
+
+  // Without Intl's Umm al-Qura calendar the tabular estimate is within a day or two
+  if (!hijriParts(candidates[0])) {
+    return { iso: candidates[0].toISOString().split("T")[0] };
+  }
+
+  const match = candidates.find((candidate) => {
+    const hijri = hijriParts(candidate);
+    return hijri?.year === year && hijri.month === month && hijri.day === day;
+  });
+  return match
+    ? { iso: match.toISOString().split("T")[0] }
+    : { error: `${day}/${month}/${year} AH is not a valid Hijri date` };
+}
+
+/**
+ * Parses the date formats found in UAE EMR screenshots into an ISO date
+ * (YYYY-MM-DD): ISO itself, day-first DD/MM/YYYY (or - and . separators),
+ * DD-MMM-YYYY with an English month name, and numeric Hijri dates, marked
+ * with AH/هـ or recognisable by their year.
+ */
+export function parseClinicalDate(input: string): DateResult {
+  // Arabic-Indic digits as printed on bilingual documents
+  const text = input
+    .trim()
+    .replace(/[٠-٩]/g, (digit) => String(digit.charCodeAt(0) - 0x0660));
+  if (!text || text.toLowerCase() === "unknown") {
+    return { error: "Date is missing" };
+  }
+
+  const hijriMarked = HIJRI_MARKER.test(text);
+  const value = text.replace(HIJRI_MARKER, "");
+  let year: number, month: number, day: number;
+
+  let match = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/.exec(value);
+  if (match) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/.exec(value))) {
+    [day, month, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = /^(\d{1,2})[-/. ]([A-Za-z]{3,9})\.?[-/. ,]+(\d{4})$/.exec(value))) {
+    const monthIndex = MONTHS.indexOf(match[2].slice(0, 3).toLowerCase());
+    if (monthIndex === -1) return { error: `"${input}" has an unknown month name` };
+    [day, month, year] = [Number(match[1]), monthIndex + 1, Number(match[3])];
+  } else {
+    return { error: `"${input}" is not in a recognised date format` };
+  }
+
+  if (hijriMarked || (year >= HIJRI_YEARS.min && year <= HIJRI_YEARS.max)) {
+    return hijriToGregorian(year, month, day);
+  }
+
+  if (!isRealDate(year, month, day)) {
+    return { error: `"${input}" is not a real calendar date` };
+  }
+  return { iso: toIso(year, month, day) };
+}
+
+/**
+ * A regular expression source matching the ways an ISO date is commonly
+ * written in clinical documents: numeric day-first, month-first or year-first
+ * with any separator and optional zero padding, with an English month name,
+ * and as the numeric Hijri date. Use it case-insensitively.
+ */
+export function writtenDatePattern(iso: string): string {
+  const [year, month, day] = iso.split("-").map(Number);
+  const d = `0?${day}(?:st|nd|rd|th)?`;
+  const m = `0?${month}`;
+  const name = `${HOUSE_MONTHS[month - 1]}[a-z]*\\.?`;
+  const patterns = [
+    `${year}[-/.]${m}[-/.]0?${day}`,
+    `0?${day}[-/.]${m}[-/.]${year}`,
+    `${m}[-/.]0?${day}[-/.]${year}`,
+    `${d}[-/.\\s]*${name}[-/.,\\s]*${year}`,
+    `${name}\\s*${d},?\\s*${year}`,
+  ];
+
+  const hijri = hijriParts(new Date(Date.UTC(year, month - 1, day, 12)));
+  if (hijri) {
+    const [hd, hm] = [`0?${hijri.day}`, `0?${hijri.month}`];
+    patterns.push(
+      `(?:${hd}[-/.]${hm}[-/.]${hijri.year}|${hijri.year}[-/.]${hm}[-/.]${hd})(?:\\s*(?:AH|A\\.H\\.|H|هـ|ه))?`
+    );
+  }
+  return patterns.join("|");
+}
+
+/**
+ * Completed years between two ISO dates.
+ */
+export function ageAt(dateOfBirth: string, date: string): number {
+  const [birthYear, birthMonth, birthDay] = dateOfBirth.split("-").map(Number);
+  const [year, month, day] = date.split("-").map(Number);
+  const hadBirthday = month > birthMonth || (month === birthMonth && day >= birthDay);
+  return year - birthYear - (hadBirthday ? 0 : 1);
+}
+
+/**
+ * The house date format used in generated documents, e.g. "07 Mar 2026".
+ * Values that do not parse (older reports) are shown as they are.
+ */
+export function formatReportDate(value: string): string {
+  const { iso } = parseClinicalDate(value);
+  if (!iso) return value;
+  const [year, month, day] = iso.split("-").map(Number);
+  return `${pad(day)} ${HOUSE_MONTHS[month - 1]} ${year}`;
+}
+
+export interface PatientDates {
+  dateOfBirth: string;
+  dateOfReport: string;
+  age: number;
+}
+
+/**
+ * Normalizes both demographic dates to ISO and checks they make sense
+ * together, returning an error per field that does not.
+ */
+export function normalizePatientDates(
+  info: Pick<PatientInfoData, DateField>
+): { dates: PatientDates; errors?: undefined } | { dates?: undefined; errors: DateErrors } {
+  const birth = parseClinicalDate(info.dateOfBirth);
+  const report = parseClinicalDate(info.dateOfReport);
+  const errors: DateErrors = {};
+
+  if (birth.error) errors.dateOfBirth = `Date of birth: ${birth.error}`;
+  if (report.error) errors.dateOfReport = `Date of report: ${report.error}`;
+
+  if (birth.iso && report.iso) {
+    const age = ageAt(birth.iso, report.iso);
+    if (birth.iso > report.iso) {
+      errors.dateOfBirth = "Date of birth is after the date of report";
+    } else if (age > MAX_AGE_YEARS) {
+      errors.dateOfBirth = `Date of birth gives an age of ${age} years`;
+    } else if (birth.iso > new Date().toISOString().split("T")[0]) {
+      errors.dateOfBirth = "Date of birth is in the future";
+    } else if (Object.keys(errors).length === 0) {
+      return { dates: { dateOfBirth: birth.iso, dateOfReport: report.iso, age } };
+    }
+  }
+
+  return { errors };
+}
+
+/**
+ * Date of birth in the house format with the age at the report date, e.g.
+ * "12 Mar 1956 (age 70)"; the age is left out when either date is invalid.
+ */
+export function formatDateOfBirth(info: Pick<PatientInfoData, DateField>): string {
+  const { dates } = normalizePatientDates(info);
+  return dates
+    ? `${formatReportDate(dates.dateOfBirth)} (age ${dates.age})`
+    : formatReportDate(info.dateOfBirth);
+}
@@ -0,0 +1,159 @@
+import { describe, expect, it } from "vitest";
+import type { ChatCompletionContentPart } from "openai/resources/chat/completions";
+import reportFixture from "./llm/fixtures/thiqa_medical_report.json";
+import type { PatientInfoData, ReportData } from "./schema";
+import {
+  deidentifyContent,
+  deidentifyReport,
+  reidentifyReport,
+  reidentifyValue,
+} from "./deidentify";
+import { buildReportUserContent } from "./reportContent";
+import { normalizePatientDates } from "./dates";
+
+const PATIENT: PatientInfoData = {
+  name: "Ahmed Al Mansouri",
+  dateOfBirth: "1956-03-01",
+  gender: "Male",
+  mrn: "MRN123456",
+  dateOfReport: "2026-10-01",
+};
+
+async function maskedText(text: string, patientInfo = PATIENT): Promise<string> {
+  const { content } = await deidentifyContent([{ type: "text", text }], patientInfo, {
+    blurImages: false,
+  });
+  return content
+    .filter((part): part is Extract<ChatCompletionContentPart, { type: "text" }> => part.type === "text")
+    .map((part) => part.text)
+    .join("\n");
+}
+
+describe("deidentifyContent", () => {
+  it("masks the full name, its parts, the MRN and the date of birth", async () => {
+    const text = await maskedText(
+      "Ahmed Al Mansouri (MRN123456), born 1956-03-01. Mr Mansouri lives with his son."
+    );
+    expect(text).not.toMatch(/Ahmed|Mansouri|MRN123456|1956-03-01/);
+    expect(text).toContain("[PATIENT_NAME] ([MRN]), born [DATE_OF_BIRTH]. Mr [PATIENT_NAME_3]");
+  });
+
+  it("masks names joined by underscores, hyphens and dots", async () => {
+    const text = await maskedText("See ahmed_mansouri-MRN123456.scan.pdf");
+    expect(text).not.toMatch(/ahmed|mansouri|MRN123456/i);
+    expect(text).toContain("See [PATIENT_NAME_1]_[PATIENT_NAME_3]-[MRN].scan.pdf");
+  });
+
+  it("keeps words that only contain a name part", async () => {
+    expect(await maskedText("Ahmedabad clinic")).toContain("Ahmedabad clinic");
+  });
+
+  it("restores each name part as it was written", async () => {
+    const text = await maskedText("Seen by Dr. Ahmed; the Mansouri family was present.");
+    expect(reidentifyValue(text, PATIENT)).toContain(
+      "Seen by Dr. Ahmed; the Mansouri family was present."
+    );
+  });
+});
+
+describe("date of birth", () => {
+  const WRITTEN = [
+    "01/03/1956",
+    "1/3/1956",
+    "01-03-1956",
+    "01.03.1956",
+    "1956/03/01",
+    "03/01/1956",
+    "01-Mar-1956",
+    "1 March 1956",
+    "1st Mar. 1956",
+    "March 1, 1956",
+    "18/07/1375 AH",
+    "18/7/1375هـ",
+  ];
+
+  // As generate-reports-batch does: dates normalized for the prompt, masked
+  // from the value as entered
+  it.each(["01/03/1956", "1956-03-01", "18/07/1375 AH"])(
+    "leaves no date of birth in the report input when entered as %s",
+    async (dateOfBirth) => {
+      const entered = { ...PATIENT, dateOfBirth };
+      const { dates } = normalizePatientDates(entered);
+      const content = await buildReportUserContent({
+        patientInfo: { ...entered, ...dates, id: "p1", hospital: "Hospital" },
+        clinicalText: WRITTEN.map((date) => `DOB ${date}.`).join(" "),
+      });
+
+      const text = await maskedText(
+        content.map((part) => (part.type === "text" ? part.text : "")).join("\n"),
+        entered
+      );
+      expect(text).not.toMatch(/1956|1375/);
+      expect(text.match(/\[DATE_OF_BIRTH\]/g)?.length).toBeGreaterThanOrEqual(WRITTEN.length);
+    }
+  );
+
+  it("restores the placeholder in the house format", async () => {
+    const { dates } = normalizePatientDates({ ...PATIENT, dateOfBirth: "01/03/1956" });
+    const text = await maskedText("Born 01/03/1956.", { ...PATIENT, dateOfBirth: "01/03/1956" });
+    expect(reidentifyValue(text, { ...PATIENT, ...dates })).toContain("Born 01 Mar 1956.");
+  });
+
+  it("keeps other dates", async () => {
+    expect(await maskedText("Seen 02/03/1956 and 01/03/2026.")).toContain(
+      "Seen 02/03/1956 and 01/03/2026."
+    );
+  });
+});
+
+describe("deidentifyReport", () => {
+  it("masks identifiers in every string of the report and restores them", () => {
+    const report = {
+      ...reportFixture,
+      patientInformation: { ...reportFixture.patientInformation, ...PATIENT },
+      conclusion: "Mr Mansouri is improving.",
+    } as ReportData;
+
+    const masked = deidentifyReport(report, PATIENT);
+    expect(JSON.stringify(masked)).not.toMatch(/Ahmed|Mansouri|1956|MRN123456/);
+    expect(reidentifyReport(masked, PATIENT)).toEqual(report);
+  });
+});
+
+describe("reidentifyReport", () => {
+  const SOURCE = "Mr MANSOURI, DOB 01/03/1956, lives alone and walks with a frame.";
+
+  // A reply quoting the masked input
+  const masked = {
+    ...reportFixture,
+    patientInformation: {
+      ...reportFixture.patientInformation,
+      name: "[PATIENT_NAME]",
+      dateOfBirth: "[DATE_OF_BIRTH]",
+      mrn: "[MRN]",
+    },
+    clinicalHistory: "Mr [PATIENT_NAME_3], born [DATE_OF_BIRTH], lives alone.",
+    sourceAttributions: [
+      {
+        section: "clinicalHistory",
+        sentence: "Mr [PATIENT_NAME_3], born [DATE_OF_BIRTH], lives alone.",
+        source: "input",
+        quote: "[PATIENT_NAME_3], DOB [DATE_OF_BIRTH], lives alone",
+        rule: null,
+      },
+    ],
+  } as ReportData;
+
+  it("prints the date of birth in the house format, and as ISO in patientInformation", () => {
+    const report = reidentifyReport(masked, PATIENT, SOURCE);
+    expect(report.clinicalHistory).toBe("Mr Mansouri, born 01 Mar 1956, lives alone.");
+    expect(report.sourceAttributions[0].sentence).toBe(report.clinicalHistory);
+    expect(report.patientInformation.dateOfBirth).toBe("1956-03-01");
+  });
+
+  it("restores quotes as the source text wrote them", () => {
+    const report = reidentifyReport(masked, PATIENT, SOURCE);
+    expect(report.sourceAttributions[0].quote).toBe("MANSOURI, DOB 01/03/1956, lives alone");
+    expect(SOURCE).toContain(report.sourceAttributions[0].quote);
+  });
+});
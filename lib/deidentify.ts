@@ -0,0 +1,269 @@
+import type { ChatCompletionContentPart } from "openai/resources/chat/completions";
+import type { PatientInfoData, ReportData } from "./schema";
+import { formatReportDate, parseClinicalDate, writtenDatePattern } from "./dates";
+
+// Demographics replaced by placeholders before report content leaves the server.
+// Each masked part of the name gets its own numbered token (see namePartToken).
+export const PHI_TOKENS = {
+  name: "[PATIENT_NAME]",
+  dateOfBirth: "[DATE_OF_BIRTH]",
+  mrn: "[MRN]",
+} as const;
+
+export type PhiField = keyof typeof PHI_TOKENS;
+
+const PHI_FIELDS = Object.keys(PHI_TOKENS) as PhiField[];
+
+// Name parts too common to mask on their own
+const NAME_CONNECTORS = new Set(["bin", "bint", "ibn", "abu", "umm", "al", "el"]);
+const MIN_NAME_PART_LENGTH = 3;
+
+// Share of each image, from the top, pixelated when blurring is requested:
+// EMR screenshots and scanned letters carry the patient banner there
+const BLUR_HEADER_FRACTION = Number(process.env.PHI_BLUR_HEADER_FRACTION) || 0.15;
+const PIXEL_SIZE = 20;
+
+export interface MaskedField {
+  field: PhiField;
+  occurrences: number;
+}
+
+export interface DeidentifiedContent {
+  content: ChatCompletionContentPart[];
+  maskedFields: MaskedField[];
+  blurredImages: number;
+}
+
+// One value to mask, the token that stands in for it and the text it is
+// restored as in the report
+interface PhiMasker {
+  field: PhiField;
+  token: string;
+  replacement: string;
+  // Every written form of the value, without the word boundaries
+  source: string;
+  pattern: RegExp;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function isKnown(value: string): boolean {
+  return value.trim() !== "" && value.trim().toLowerCase() !== "unknown";
+}
+
+// Numbered by the part's position in the name, so "Dr. [PATIENT_NAME_1]"
+// comes back as "Dr. Ahmed" rather than the full name
+function namePartToken(position: number): string {
+  return `[PATIENT_NAME_${position}]`;
+}
+
+// Only letters and digits join words, so "_", "-" and "." separate the name
+// parts of "ahmed_mansouri-scan.pdf"
+function wholeWord(source: string): RegExp {
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${source})(?![\\p{L}\\p{N}])`, "giu");
+}
+
+// Dates of birth are normalized to ISO before masking, but the clinical text
+// still carries them as the source documents wrote them
+function valueSource(field: PhiField, value: string): string {
+  const { iso } = field === "dateOfBirth" ? parseClinicalDate(value) : {};
+  return iso ? `${escapeRegExp(value)}|${writtenDatePattern(iso)}` : escapeRegExp(value);
+}
+
+function masker(field: PhiField, token: string, value: string): PhiMasker {
+  const source = valueSource(field, value);
+  return {
+    field,
+    token,
+    // Narrative text prints the date of birth in the house format
+    replacement: field === "dateOfBirth" ? formatReportDate(value) : value,
+    source,
+    pattern: wholeWord(source),
+  };
+}
+
+// The full name is masked before its parts, so it keeps its single token
+function phiMaskers(patientInfo: PatientInfoData): PhiMasker[] {
+  return PHI_FIELDS.filter((field) => isKnown(patientInfo[field])).flatMap((field) => {
+    const value = patientInfo[field].trim();
+    const maskers = [masker(field, PHI_TOKENS[field], value)];
+    if (field === "name") {
+      value.split(/\s+/).forEach((part, index) => {
+        if (part.length >= MIN_NAME_PART_LENGTH && !NAME_CONNECTORS.has(part.toLowerCase())) {
+          maskers.push(masker(field, namePartToken(index + 1), part));
+        }
+      });
+    }
+    return maskers;
+  });
+}
+
+function mapStrings<T>(value: T, map: (text: string) => string): T {
+  if (typeof value === "string") {
+    return map(value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => mapStrings(item, map)) as T;
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, mapStrings(item, map)])
+    ) as T;
+  }
+  return value;
+}
+
+function maskText(
+  text: string,
+  maskers: PhiMasker[],
+  onMatch: (field: PhiField) => void = () => {}
+): string {
+  return maskers.reduce(
+    (masked, { field, token, pattern }) =>
+      masked.replace(pattern, () => {
+        onMatch(field);
+        return token;
+      }),
+    text
+  );
+}
+
+async function blurHeader(dataUrl: string): Promise<string> {
+  const { createCanvas, loadImage } = await import("@napi-rs/canvas");
+  const image = await loadImage(dataUrl);
+  const canvas = createCanvas(image.width, image.height);
+  const context = canvas.getContext("2d");
+  context.drawImage(image, 0, 0);
+
+  // Pixelate the band by scaling it down and back up without smoothing
+  const band = Math.ceil(image.height * BLUR_HEADER_FRACTION);
+  const small = createCanvas(
+    Math.max(1, Math.ceil(image.width / PIXEL_SIZE)),
+    Math.max(1, Math.ceil(band / PIXEL_SIZE))
+  );
+  small.getContext("2d").drawImage(canvas, 0, 0, image.width, band, 0, 0, small.width, small.height);
+  context.imageSmoothingEnabled = false;
+  context.drawImage(small, 0, 0, small.width, small.height, 0, 0, image.width, band);
+
+  return canvas.toDataURL("image/png");
+}
+
+/**
+ * Replaces the patient's name, date of birth and MRN with placeholders in
+ * every text part (including text extracted from PDFs) and, when asked,
+ * pixelates the header band of every image.
+ */
+export async function deidentifyContent(
+  content: ChatCompletionContentPart[],
+  patientInfo: PatientInfoData,
+  { blurImages }: { blurImages: boolean }
+): Promise<DeidentifiedContent> {
+  const maskers = phiMaskers(patientInfo);
+  const occurrences = new Map<PhiField, number>();
+  let blurredImages = 0;
+
+  const masked = await Promise.all(
+    content.map(async (part): Promise<ChatCompletionContentPart> => {
+      if (part.type === "text") {
+        const text = maskText(part.text, maskers, (field) =>
+          occurrences.set(field, (occurrences.get(field) ?? 0) + 1)
+        );
+        return { ...part, text };
+      }
+
+      if (part.type === "image_url" && blurImages) {
+        blurredImages++;
+        return { ...part, image_url: { ...part.image_url, url: await blurHeader(part.image_url.url) } };
+      }
+
+      return part;
+    })
+  );
+
+  const tokens = [...new Set(maskers.map(({ token }) => token))];
+  return {
+    content: [
+      ...(tokens.length > 0
+        ? [
+            {
+              type: "text" as const,
+              text: `Patient identifiers have been replaced by placeholders (${tokens.join(", ")}). Copy them unchanged wherever the real value belongs.`,
+            },
+          ]
+        : []),
+      ...masked,
+    ],
+    maskedFields: [...occurrences].map(([field, count]) => ({ field, occurrences: count })),
+    blurredImages,
+  };
+}
+
+/**
+ * The report with the same placeholders in every string, for prompts that
+ * send an existing report back to the provider.
+ */
+export function deidentifyReport(report: ReportData, patientInfo: PatientInfoData): ReportData {
+  const maskers = phiMaskers(patientInfo);
+  return mapStrings(report, (text) => maskText(text, maskers));
+}
+
+/**
+ * Puts each masked value back where the provider copied its placeholder,
+ * in any JSON value: a whole report or a single section. The date of birth
+ * comes back in the house format ("01 Mar 1956").
+ */
+export function reidentifyValue<T>(value: T, patientInfo: PatientInfoData): T {
+  const maskers = phiMaskers(patientInfo);
+  return mapStrings(value, (text) =>
+    maskers.reduce(
+      (restored, { token, replacement }) => restored.split(token).join(replacement),
+      text
+    )
+  );
+}
+
+// A quote is a verbatim span of the masked input, so its placeholders are
+// restored as the source text wrote them, e.g. "DOB 01/03/1956"
+function restoreQuote(quote: string, maskers: PhiMasker[], sourceText: string): string | undefined {
+  const tokens = maskers.map(({ token }) => escapeRegExp(token)).join("|");
+  const pieces = tokens ? quote.split(new RegExp(`(${tokens})`)) : [quote];
+  if (pieces.length === 1) return undefined;
+
+  const pattern = pieces
+    .map((piece, index) => {
+      if (index % 2 === 1) {
+        return `(?:${maskers.find(({ token }) => token === piece)?.source})`;
+      }
+      return escapeRegExp(piece).replace(/\s+/g, "\\s+");
+    })
+    .join("");
+  return sourceText.match(new RegExp(pattern, "iu"))?.[0];
+}
+
+/**
+ * Puts the real demographics back into a validated report: the placeholders
+ * anywhere in its text, and patientInformation from the source values (the
+ * date of birth as ISO). Given the unmasked input text, quotes that held a
+ * placeholder are restored from it so they still match the source.
+ */
+export function reidentifyReport(
+  report: ReportData,
+  patientInfo: PatientInfoData,
+  sourceText?: string
+): ReportData {
+  const maskers = phiMaskers(patientInfo);
+  const restored = reidentifyValue(report, patientInfo);
+  for (const field of PHI_FIELDS) {
+    restored.patientInformation[field] = patientInfo[field];
+  }
+  if (sourceText) {
+    restored.sourceAttributions = restored.sourceAttributions.map((attribution, index) => {
+      const { quote } = report.sourceAttributions[index];
+      const source = quote ? restoreQuote(quote, maskers, sourceText) : undefined;
+      return source ? { ...attribution, quote: source } : attribution;
+    });
+  }
+  return restored;
+}
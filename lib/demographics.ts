@@ -0,0 +1,28 @@
+import type { DemographicField, FieldConfidence } from "./schema";
+
+export const DEMOGRAPHIC_FIELDS: Array<{ key: DemographicField; label: string }> = [
+  { key: "name", label: "Patient Name" },
+  { key: "dateOfBirth", label: "Date of Birth" },
+  { key: "gender", label: "Gender" },
+  { key: "mrn", label: "MRN" },
+  { key: "dateOfReport", label: "Date of Report" },
+];
+
+// Extracted values below this confidence must be confirmed before generation.
+export const LOW_CONFIDENCE_THRESHOLD = 0.8;
+
+export type FieldConfidences = Record<DemographicField, FieldConfidence>;
+
+/**
+ * Fields a reviewer has to confirm: low confidence, or not read at all.
+ */
+export function lowConfidenceFields(
+  fieldConfidence: FieldConfidences | undefined
+): DemographicField[] {
+  if (!fieldConfidence) return [];
+  return DEMOGRAPHIC_FIELDS.map(({ key }) => key).filter(
+    (key) =>
+      fieldConfidence[key].confidence < LOW_CONFIDENCE_THRESHOLD ||
+      !fieldConfidence[key].rawText.trim()
+  );
+}
@@ -0,0 +1,91 @@
+import type { ChatCompletionContentPart } from "openai/resources/chat/completions";
+import { extractText, getDocumentProxy, renderPageAsImage } from "unpdf";
+
+export const PDF_MIME_TYPE = "application/pdf";
+
+// Pages beyond this are not sent to the model
+const MAX_PDF_PAGES = Number(process.env.MAX_PDF_PAGES) || 20;
+// Pages with less embedded text than this are treated as scans and rasterized
+const MIN_PAGE_TEXT_CHARS = 40;
+const RASTER_SCALE = 2;
+
+function parseDataUrl(dataUrl: string): { mimeType: string; bytes: Uint8Array } {
+  const match = /^data:([^;,]*)(;base64)?,([\s\S]*)$/.exec(dataUrl);
+  if (!match || !match[2]) {
+    throw new Error("Attachments must be base64 data URLs");
+  }
+  return { mimeType: match[1], bytes: new Uint8Array(Buffer.from(match[3], "base64")) };
+}
+
+/**
+ * One content part per PDF page, labeled "<label>, page N of M": the embedded
+ * text when the page has any, otherwise a rendered image of the page.
+ */
+async function pdfContentParts(
+  label: string,
+  bytes: Uint8Array
+): Promise<ChatCompletionContentPart[]> {
+  const pdf = await getDocumentProxy(bytes);
+  // Release the document even when a page fails to render
+  try {
+    const { totalPages, text } = await extractText(pdf);
+    const pageCount = Math.min(totalPages, MAX_PDF_PAGES);
+    const parts: ChatCompletionContentPart[] = [];
+
+    for (let page = 1; page <= pageCount; page++) {
+      const pageText = text[page - 1]?.trim() ?? "";
+      const pageLabel = `${label}, page ${page} of ${totalPages}`;
+
+      if (pageText.replace(/\s/g, "").length >= MIN_PAGE_TEXT_CHARS) {
+        parts.push({ type: "text", text: `${pageLabel} (embedded text):\n${pageText}` });
+        continue;
+      }
+
+      const url = await renderPageAsImage(pdf, page, {
+        canvasImport: () => import("@napi-rs/canvas"),
+        scale: RASTER_SCALE,
+        toDataURL: true,
+      });
+      parts.push({ type: "text", text: `${pageLabel} (scanned page):` });
+      parts.push({ type: "image_url", image_url: { url } });
+    }
+
+    if (totalPages > pageCount) {
+      parts.push({
+        type: "text",
+        text: `${label}: pages ${pageCount + 1}-${totalPages} were not included.`,
+      });
+    }
+
+    return parts;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Content parts for an uploaded document given as a data URL: an image is
+ * sent as is, a PDF page by page with page references.
+ */
+export async function documentContentParts(
+  label: string,
+  dataUrl: string
+): Promise<ChatCompletionContentPart[]> {
+  const { mimeType, bytes } = parseDataUrl(dataUrl);
+
+  if (mimeType === PDF_MIME_TYPE) {
+    return pdfContentParts(label, bytes);
+  }
+
+  return [
+    { type: "text", text: `${label}:` },
+    { type: "image_url", image_url: { url: dataUrl } },
+  ];
+}
+
+export async function fileToDataUrl(file: File): Promise<string> {
+  const buffer = await file.arrayBuffer();
+  const base64 = Buffer.from(buffer).toString("base64");
+  const mimeType = file.type || "image/jpeg";
+  return `data:${mimeType};base64,${base64}`;
+}
@@ -0,0 +1,25 @@
+import type { RomMeasurement, StrengthGrade } from "./schema";
+
+export const ROM_TABLE_HEADER = ["Joint", "Side", "Movement", "Measured", "Normal"];
+export const STRENGTH_TABLE_HEADER = ["Muscle Group", "Side", "MMT Grade"];
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+/**
+ * Findings table rows shared by the PDF and DOCX renderers.
+ */
+export function romRows(measurements: RomMeasurement[]): string[][] {
+  return measurements.map((m) => [
+    m.joint,
+    capitalize(m.side),
+    m.movement,
+    `${m.degrees}°`,
+    `${m.normalDegrees}°`,
+  ]);
+}
+
+export function strengthRows(grades: StrengthGrade[]): string[][] {
+  return grades.map((g) => [g.muscleGroup, capitalize(g.side), `${g.grade}/5`]);
+}
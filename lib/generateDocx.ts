@@ -3,218 +3,36 @@ import {
     Packer,
     Paragraph,
     TextRun,
+    ImageRun,
     HeadingLevel,
     AlignmentType,
-    BorderStyle,
+    Table,
+    TableRow,
+    TableCell,
+    WidthType,
 } from "docx";
 import type { ReportData } from "./schema";
-
-export async function generateDocx(report: ReportData): Promise<Buffer> {
+import { buildReportDocument, type DocumentBlock } from "./reportDocument";
+import type { SignatureImages } from "./physicians";
+
+// By document heading level: sections, then their sub-headings
+const HEADING_STYLES = {
+    1: { heading: HeadingLevel.HEADING_2, after: 200 },
+    2: { heading: HeadingLevel.HEADING_3, after: 100 },
+};
+
+// Document model sizes are in points; DOCX images are sized in pixels
+const PIXELS_PER_POINT = 96 / 72;
+
+export async function generateDocx(
+    report: ReportData,
+    signatureImages?: SignatureImages
+): Promise<Buffer> {
     const doc = new Document({
         sections: [
             {
                 properties: {},
-                children: [
-                    // Title
-                    new Paragraph({
-                        text: "Medical Report",
-                        heading: HeadingLevel.TITLE,
-                        alignment: AlignmentType.CENTER,
-                        spacing: {
-                            after: 400,
-                        },
-                    }),
-
-                    // Patient Information
-                    new Paragraph({
-                        text: "Patient Information:",
-                        heading: HeadingLevel.HEADING_2,
-                        spacing: {
-                            after: 200,
-                        },
-                    }),
-                    ...createPatientInfo(report.patientInformation),
-                    new Paragraph({ text: "", spacing: { after: 200 } }),
-
-                    // Clinical History
-                    new Paragraph({
-                        text: "Clinical History:",
-                        heading: HeadingLevel.HEADING_2,
-                        spacing: {
-                            after: 200,
-                        },
-                    }),
-                    new Paragraph({
-                        text: report.clinicalHistory,
-                        spacing: {
-                            after: 200,
-                        },
-                    }),
-
-                    // Past Medical History
-                    new Paragraph({
-                        text: "Past Medical History:",
-                        heading: HeadingLevel.HEADING_2,
-                        spacing: {
-                            after: 200,
-                        },
-                    }),
-                    ...createBulletList(report.pastMedicalHistory),
-                    new Paragraph({ text: "", spacing: { after: 200 } }),
-
-                    // Vital Signs
-                    new Paragraph({
-                        text: "Vital Signs:",
-                        heading: HeadingLevel.HEADING_2,
-                        spacing: {
-                            after: 200,
-                        },
-                    }),
-                    ...createBulletList(report.vitalSigns),
-                    new Paragraph({ text: "", spacing: { after: 200 } }),
-
-                    // Clinical Notes
-                    new Paragraph({
-                        text: "Clinical Notes:",
-                        heading: HeadingLevel.HEADING_2,
-                        spacing: {
-                            after: 200,
-                        },
-                    }),
-                    new Paragraph({
-                        text: report.clinicalNotes,
-                        spacing: {
-                            after: 200,
-                        },
-                    }),
-
-                    // Diagnoses
-                    new Paragraph({
-                        text: "Diagnoses:",
-                        heading: HeadingLevel.HEADING_2,
-                        spacing: {
-                            after: 200,
-                        },
-                    }),
-                    ...createDiagnosesList(report.diagnoses),
-                    new Paragraph({ text: "", spacing: { after: 200 } }),
-
-                    // Treatment Plan
-                    new Paragraph({
-                        text: "Treatment Plan:",
-                        heading: HeadingLevel.HEADING_2,
-                        spacing: {
-                            after: 200,
-                        },
-                    }),
-
-                    // Medications
-                    new Paragraph({
-                        text: "Medications:",
-                        heading: HeadingLevel.HEADING_3,
-                        spacing: {
-                            after: 100,
-                        },
-                    }),
-                    ...createBulletList(report.treatmentPlan.medications),
-                    new Paragraph({ text: "", spacing: { after: 100 } }),
-
-                    // Home Physiotherapy
-                    new Paragraph({
-                        text: "Home Physiotherapy:",
-                        heading: HeadingLevel.HEADING_3,
-                        spacing: {
-                            after: 100,
-                        },
-                    }),
-                    new Paragraph({
-                        text: `Frequency: ${report.treatmentPlan.homePhysio.frequency}`,
-                    }),
-                    new Paragraph({
-                        text: `Duration: ${report.treatmentPlan.homePhysio.duration}`,
-                        spacing: {
-                            after: 100,
-                        },
-                    }),
-
-                    // Short-Term Goals
-                    new Paragraph({
-                        text: "Short-Term Goals:",
-                        heading: HeadingLevel.HEADING_3,
-                        spacing: {
-                            after: 100,
-                        },
-                    }),
-                    ...createBulletList(report.treatmentPlan.shortTermGoals),
-                    new Paragraph({ text: "", spacing: { after: 100 } }),
-
-                    // Long-Term Goals
-                    new Paragraph({
-                        text: "Long-Term Goals:",
-                        heading: HeadingLevel.HEADING_3,
-                        spacing: {
-                            after: 100,
-                        },
-                    }),
-                    ...createBulletList(report.treatmentPlan.longTermGoals),
-                    new Paragraph({ text: "", spacing: { after: 200 } }),
-
-                    // Prognosis
-                    new Paragraph({
-                        text: "Prognosis:",
-                        heading: HeadingLevel.HEADING_2,
-                        spacing: {
-                            after: 200,
-                        },
-                    }),
-                    ...createBulletList(report.prognosis),
-                    new Paragraph({ text: "", spacing: { after: 200 } }),
-
-                    // Conclusion
-                    new Paragraph({
-                        text: "Conclusion:",
-                        heading: HeadingLevel.HEADING_2,
-                        spacing: {
-                            after: 200,
-                        },
-                    }),
-                    new Paragraph({
-                        text: report.conclusion,
-                        spacing: {
-                            after: 400,
-                        },
-                    }),
-
-                    // Signature
-                    new Paragraph({
-                        text: report.signature.greeting,
-                        spacing: { after: 200 },
-                    }),
-                    new Paragraph({
-                        text: report.signature.doctorName,
-                        spacing: { after: 100 },
-                    }),
-                    new Paragraph({
-                        text: report.signature.title,
-                        spacing: { after: 100 },
-                    }),
-                    new Paragraph({
-                        text: report.signature.dohLicense,
-                        spacing: { after: 100 },
-                    }),
-                    new Paragraph({
-                        text: report.signature.facility,
-                        spacing: { after: 100 },
-                    }),
-                    new Paragraph({
-                        text: report.signature.date,
-                        spacing: { after: 200 },
-                    }),
-                    new Paragraph({
-                        text: report.signature.signatureStamp,
-                        spacing: { after: 100 },
-                    }),
-                ],
+                children: buildReportDocument(report, signatureImages ?? null).flatMap(renderBlock),
             },
         ],
     });
@@ -222,25 +40,99 @@ export async function generateDocx(report: ReportData): Promise<Buffer> {
     return await Packer.toBuffer(doc);
 }
 
-function createPatientInfo(info: any): Paragraph[] {
-    const fields = [
-        `Name: ${info.name}`,
-        `Date of Birth: ${info.dateOfBirth}`,
-        `Gender: ${info.gender}`,
-        `MRN: ${info.mrn}`,
-        `Date of Report: ${info.dateOfReport}`,
-        `Hospital: ${info.hospital}`,
-    ];
+function renderBlock(block: DocumentBlock): Array<Paragraph | Table> {
+    switch (block.type) {
+        case "title":
+            return [
+                new Paragraph({
+                    text: block.text,
+                    heading: HeadingLevel.TITLE,
+                    alignment: AlignmentType.CENTER,
+                    spacing: {
+                        after: 400,
+                    },
+                }),
+            ];
+
+        case "heading": {
+            const { heading, after } = HEADING_STYLES[block.level];
+            return [new Paragraph({ text: block.text, heading, spacing: { after } })];
+        }
+
+        case "paragraph":
+            return [
+                new Paragraph({
+                    text: block.text,
+                    spacing: {
+                        after: 200,
+                    },
+                }),
+            ];
+
+        case "bullets":
+            return [...createBulletList(block.items), createSpacer()];
+
+        case "keyValues":
+            return [
+                ...block.entries.map(
+                    ({ label, value }) =>
+                        new Paragraph({
+                            text: `${label}: ${value}`,
+                            spacing: {
+                                after: 100,
+                            },
+                        })
+                ),
+                createSpacer(),
+            ];
+
+        case "table":
+            return [createTable(block.header, block.rows, block.columnWidths), createSpacer()];
+
+        case "signature":
+            return [
+                new Paragraph({
+                    text: block.greeting,
+                    spacing: { before: 200, after: 200 },
+                }),
+                ...block.lines.map(
+                    (line) =>
+                        new Paragraph({
+                            text: line,
+                            spacing: { after: 100 },
+                        })
+                ),
+                new Paragraph({
+                    text: block.date,
+                    spacing: { after: 200 },
+                }),
+                new Paragraph({
+                    text: block.stampLabel,
+                    spacing: { after: 100 },
+                }),
+                ...(block.images.length > 0
+                    ? [
+                          new Paragraph({
+                              children: block.images.flatMap(({ png, height }, index) => [
+                                  ...(index > 0 ? [new TextRun("    ")] : []),
+                                  new ImageRun({
+                                      type: "png",
+                                      data: png.data,
+                                      transformation: {
+                                          width: Math.round((png.width / png.height) * height * PIXELS_PER_POINT),
+                                          height: Math.round(height * PIXELS_PER_POINT),
+                                      },
+                                  }),
+                              ]),
+                          }),
+                      ]
+                    : []),
+            ];
+    }
+}
 
-    return fields.map(
-        (field) =>
-            new Paragraph({
-                text: field,
-                spacing: {
-                    after: 100,
-                },
-            })
-    );
+function createSpacer(): Paragraph {
+    return new Paragraph({ text: "", spacing: { after: 200 } });
 }
 
 function createBulletList(items: string[]): Paragraph[] {
@@ -255,14 +147,35 @@ function createBulletList(items: string[]): Paragraph[] {
     );
 }
 
-function createDiagnosesList(diagnoses: any[]): Paragraph[] {
-    return diagnoses.map(
-        (d) =>
-            new Paragraph({
-                text: `${d.label} (${d.code}): ${d.description}`,
-                bullet: {
-                    level: 0,
-                },
-            })
-    );
+function createTableRow(cells: string[], columnWidths: number[], bold = false): TableRow {
+    return new TableRow({
+        tableHeader: bold,
+        children: cells.map(
+            (cell, index) =>
+                new TableCell({
+                    width: {
+                        size: columnWidths[index] * 100,
+                        type: WidthType.PERCENTAGE,
+                    },
+                    children: [
+                        new Paragraph({
+                            children: [new TextRun({ text: cell, bold })],
+                        }),
+                    ],
+                })
+        ),
+    });
+}
+
+function createTable(header: string[], rows: string[][], columnWidths: number[]): Table {
+    return new Table({
+        width: {
+            size: 100,
+            type: WidthType.PERCENTAGE,
+        },
+        rows: [
+            createTableRow(header, columnWidths, true),
+            ...rows.map((row) => createTableRow(row, columnWidths)),
+        ],
+    });
 }
@@ -1,24 +1,45 @@
-import { PDFDocument, rgb, StandardFonts } from "pdf-lib";
+import {
+  PDFDocument,
+  rgb,
+  StandardFonts,
+  type PDFEmbeddedPage,
+  type PDFFont,
+  type PDFPage,
+} from "pdf-lib";
 import type { ReportData } from "./schema";
-
-interface TextConfig {
-  text: string;
-  x: number;
-  y: number;
-  size: number;
-  font: any;
-  maxWidth?: number;
-  lineHeight?: number;
-  isBold?: boolean;
+import { buildReportDocument, type HeadingLevel } from "./reportDocument";
+import { DEFAULT_MARGINS } from "./pageMargins";
+import type { LetterheadAssets } from "./letterheads";
+import type { SignatureImages } from "./physicians";
+
+// Splits a word wider than the line into pieces that fit
+function breakWord(word: string, maxWidth: number, font: PDFFont, fontSize: number): string[] {
+  const pieces: string[] = [];
+  let piece = "";
+  for (const char of word) {
+    if (piece && font.widthOfTextAtSize(piece + char, fontSize) > maxWidth) {
+      pieces.push(piece);
+      piece = char;
+    } else {
+      piece += char;
+    }
+  }
+  return piece ? [...pieces, piece] : pieces;
 }
 
 function wrapText(
   text: string,
   maxWidth: number,
-  font: any,
+  font: PDFFont,
   fontSize: number
 ): string[] {
-  const words = text.split(" ");
+  const words = text
+    .split(" ")
+    .flatMap((word) =>
+      font.widthOfTextAtSize(word, fontSize) > maxWidth
+        ? breakWord(word, maxWidth, font, fontSize)
+        : [word]
+    );
   const lines: string[] = [];
   let currentLine = "";
 
@@ -41,477 +62,215 @@ function wrapText(
   return lines;
 }
 
-function drawText(page: any, config: TextConfig): number {
-  const {
-    text,
-    x,
-    y,
-    size,
-    font,
-    maxWidth = 500,
-    lineHeight = size * 1.5,
-  } = config;
+const CELL_PADDING = 6;
+const TABLE_LINE_HEIGHT = 14;
+
+// Each cell's text wrapped to its column
+function wrapTableRow(
+  cells: string[],
+  columnWidths: number[],
+  font: PDFFont,
+  size: number
+): string[][] {
+  return cells.map((cell, index) =>
+    wrapText(cell, columnWidths[index] - 2 * CELL_PADDING, font, size)
+  );
+}
 
-  const lines = wrapText(text, maxWidth, font, size);
-  let currentY = y;
+// Lines below the first, which the row adds under its first baseline
+function extraRowLines(cellLines: string[][]): number {
+  return Math.max(1, ...cellLines.map((lines) => lines.length)) - 1;
+}
 
-  for (const line of lines) {
-    page.drawText(line, {
-      x,
-      y: currentY,
-      size,
-      font,
-      color: rgb(0, 0, 0),
+function drawTableRow(
+  page: PDFPage,
+  cellLines: string[][],
+  columnWidths: number[],
+  x: number,
+  y: number,
+  font: PDFFont,
+  size: number
+): number {
+  const rowHeight = 20 + extraRowLines(cellLines) * TABLE_LINE_HEIGHT;
+  let cellX = x;
+
+  cellLines.forEach((lines, index) => {
+    page.drawRectangle({
+      x: cellX,
+      y: y + TABLE_LINE_HEIGHT - rowHeight,
+      width: columnWidths[index],
+      height: rowHeight,
+      borderColor: rgb(0, 0, 0),
+      borderWidth: 0.5,
     });
-    currentY -= lineHeight;
-  }
+    lines.forEach((line, lineIndex) => {
+      page.drawText(line, {
+        x: cellX + CELL_PADDING,
+        y: y - lineIndex * TABLE_LINE_HEIGHT,
+        size,
+        font,
+        color: rgb(0, 0, 0),
+      });
+    });
+    cellX += columnWidths[index];
+  });
 
-  return currentY;
+  return y - rowHeight;
 }
 
-export async function generatePdf(report: ReportData): Promise<Uint8Array> {
+const A4: [number, number] = [595, 842];
+const IMAGE_GAP = 20;
+
+const HEADING_STYLES: Record<HeadingLevel, { size: number; spaceAfter: number }> = {
+  1: { size: 14, spaceAfter: 24 },
+  2: { size: 12, spaceAfter: 18 },
+};
+
+/**
+ * Lays the report out on A4 pages, or over a letterhead: its first-page
+ * design behind page 1 and its continuation design behind the rest, with
+ * the text kept inside that letterhead's margins. Signature images are only
+ * passed for approved reports.
+ */
+export async function generatePdf(
+  report: ReportData,
+  letterhead?: LetterheadAssets,
+  signatureImages?: SignatureImages
+): Promise<Uint8Array> {
   const pdfDoc = await PDFDocument.create();
-  let page = pdfDoc.addPage([595, 842]); // A4 size
 
   const regularFont = await pdfDoc.embedFont(StandardFonts.Helvetica);
   const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
 
-  const pageWidth = page.getWidth();
-  const pageHeight = page.getHeight();
-  const topPadding = 230;
-  const bottomPadding = 100;
-  const margin = 50;
-  const maxWidth = pageWidth - 2 * margin;
-
-  let yPosition = pageHeight - topPadding; // Top padding of 180
-
-  // Title: "Medical Report" - centered, bold, 20pt (only on first page)
-  const titleText = "Medical Report";
-  const titleWidth = boldFont.widthOfTextAtSize(titleText, 20);
-  page.drawText(titleText, {
-    x: (pageWidth - titleWidth) / 2,
-    y: yPosition,
-    size: 20,
-    font: boldFont,
-    color: rgb(0, 0, 0),
-  });
-
-  yPosition -= 40; // Space after title
+  const margins = letterhead?.margins ?? DEFAULT_MARGINS;
+  let backgrounds: Record<"first" | "continuation", PDFEmbeddedPage> | null = null;
+  if (letterhead) {
+    const [first] = await pdfDoc.embedPdf(letterhead.firstPage, [0]);
+    const [continuation] =
+      letterhead.continuationPage === letterhead.firstPage
+        ? [first]
+        : await pdfDoc.embedPdf(letterhead.continuationPage, [0]);
+    backgrounds = { first, continuation };
+  }
 
-  const checkNewPage = () => {
-    if (yPosition < bottomPadding) {
-      // Bottom padding of 80
-      page = pdfDoc.addPage([595, 842]);
-      yPosition = pageHeight - topPadding; // Top padding of 180 for each new page
+  const addPage = (variant: "first" | "continuation") => {
+    const background = backgrounds?.[variant];
+    const added = pdfDoc.addPage(background ? [background.width, background.height] : A4);
+    if (background) {
+      added.drawPage(background, { x: 0, y: 0 });
     }
+    return added;
   };
 
-  // Patient Information Section
-  checkNewPage();
-  page.drawText("Patient Information:", {
-    x: margin,
-    y: yPosition,
-    size: 14,
-    font: boldFont,
-    color: rgb(0, 0, 0),
-  });
-  yPosition -= 24;
-
-  const patientInfo = report.patientInformation;
-  const patientFields = [
-    `Name: ${patientInfo.name}`,
-    `Date of Birth: ${patientInfo.dateOfBirth}`,
-    `Gender: ${patientInfo.gender}`,
-    `MRN: ${patientInfo.mrn}`,
-    `Date of Report: ${patientInfo.dateOfReport}`,
-    `Hospital: ${patientInfo.hospital}`,
-  ];
-
-  for (const field of patientFields) {
-    checkNewPage();
-    yPosition = drawText(page, {
-      text: field,
-      x: margin,
-      y: yPosition,
-      size: 12,
-      font: regularFont,
-      maxWidth,
-      lineHeight: 18,
-    });
-  }
-
-  yPosition -= 12; // Single blank line
-
-  // Clinical History Section
-  checkNewPage();
-  page.drawText("Clinical History:", {
-    x: margin,
-    y: yPosition,
-    size: 14,
-    font: boldFont,
-    color: rgb(0, 0, 0),
-  });
-  yPosition -= 24;
-
-  checkNewPage();
-  yPosition = drawText(page, {
-    text: report.clinicalHistory,
-    x: margin,
-    y: yPosition,
-    size: 12,
-    font: regularFont,
-    maxWidth,
-    lineHeight: 18,
-  });
-
-  yPosition -= 12;
-
-  // Past Medical History Section
-  checkNewPage();
-  page.drawText("Past Medical History:", {
-    x: margin,
-    y: yPosition,
-    size: 14,
-    font: boldFont,
-    color: rgb(0, 0, 0),
-  });
-  yPosition -= 24;
-
-  for (const item of report.pastMedicalHistory) {
-    checkNewPage();
-    yPosition = drawText(page, {
-      text: `• ${item}`,
-      x: margin,
-      y: yPosition,
-      size: 12,
-      font: regularFont,
-      maxWidth,
-      lineHeight: 18,
-    });
-  }
-
-  yPosition -= 12;
-
-  // Vital Signs Section
-  checkNewPage();
-  page.drawText("Vital Signs:", {
-    x: margin,
-    y: yPosition,
-    size: 14,
-    font: boldFont,
-    color: rgb(0, 0, 0),
-  });
-  yPosition -= 24;
-
-  for (const item of report.vitalSigns) {
-    checkNewPage();
-    yPosition = drawText(page, {
-      text: `• ${item}`,
-      x: margin,
-      y: yPosition,
-      size: 12,
-      font: regularFont,
-      maxWidth,
-      lineHeight: 18,
-    });
-  }
-
-  yPosition -= 12;
-
-  // Clinical Notes Section
-  checkNewPage();
-  page.drawText("Clinical Notes:", {
-    x: margin,
-    y: yPosition,
-    size: 14,
-    font: boldFont,
-    color: rgb(0, 0, 0),
-  });
-  yPosition -= 24;
-
-  checkNewPage();
-  yPosition = drawText(page, {
-    text: report.clinicalNotes,
-    x: margin,
-    y: yPosition,
-    size: 12,
-    font: regularFont,
-    maxWidth,
-    lineHeight: 18,
-  });
-
-  yPosition -= 12;
-
-  // Diagnoses Section
-  checkNewPage();
-  page.drawText("Diagnoses:", {
-    x: margin,
-    y: yPosition,
-    size: 14,
-    font: boldFont,
-    color: rgb(0, 0, 0),
-  });
-  yPosition -= 24;
-
-  for (const diagnosis of report.diagnoses) {
-    checkNewPage();
-    yPosition = drawText(page, {
-      text: `• ${diagnosis.label} (${diagnosis.code}): ${diagnosis.description}`,
-      x: margin,
-      y: yPosition,
-      size: 12,
-      font: regularFont,
-      maxWidth,
-      lineHeight: 18,
-    });
-  }
-
-  yPosition -= 12;
-
-  // Treatment Plan Section
-  checkNewPage();
-  page.drawText("Treatment Plan:", {
-    x: margin,
-    y: yPosition,
-    size: 14,
-    font: boldFont,
-    color: rgb(0, 0, 0),
-  });
-  yPosition -= 24;
-
-  // Medications
-  checkNewPage();
-  page.drawText("Medications:", {
-    x: margin,
-    y: yPosition,
-    size: 12,
-    font: boldFont,
-    color: rgb(0, 0, 0),
-  });
-  yPosition -= 18;
-
-  for (const med of report.treatmentPlan.medications) {
-    checkNewPage();
-    yPosition = drawText(page, {
-      text: `• ${med}`,
-      x: margin,
-      y: yPosition,
-      size: 12,
-      font: regularFont,
-      maxWidth,
-      lineHeight: 18,
-    });
-  }
-
-  yPosition -= 12;
-
-  // Home Physiotherapy
-  checkNewPage();
-  page.drawText("Home Physiotherapy:", {
-    x: margin,
-    y: yPosition,
-    size: 12,
-    font: boldFont,
-    color: rgb(0, 0, 0),
-  });
-  yPosition -= 18;
-
-  checkNewPage();
-  yPosition = drawText(page, {
-    text: `Frequency: ${report.treatmentPlan.homePhysio.frequency}`,
-    x: margin,
-    y: yPosition,
-    size: 12,
-    font: regularFont,
-    maxWidth,
-    lineHeight: 18,
-  });
-
-  checkNewPage();
-  yPosition = drawText(page, {
-    text: `Duration: ${report.treatmentPlan.homePhysio.duration}`,
-    x: margin,
-    y: yPosition,
-    size: 12,
-    font: regularFont,
-    maxWidth,
-    lineHeight: 18,
-  });
-
-  yPosition -= 12;
-
-  // Short-Term Goals
-  checkNewPage();
-  page.drawText("Short-Term Goals:", {
-    x: margin,
-    y: yPosition,
-    size: 12,
-    font: boldFont,
-    color: rgb(0, 0, 0),
-  });
-  yPosition -= 18;
-
-  for (const goal of report.treatmentPlan.shortTermGoals) {
-    checkNewPage();
-    yPosition = drawText(page, {
-      text: `• ${goal}`,
-      x: margin,
-      y: yPosition,
-      size: 12,
-      font: regularFont,
-      maxWidth,
-      lineHeight: 18,
-    });
-  }
-
-  yPosition -= 12;
-
-  // Long-Term Goals
-  checkNewPage();
-  page.drawText("Long-Term Goals:", {
-    x: margin,
-    y: yPosition,
-    size: 12,
-    font: boldFont,
-    color: rgb(0, 0, 0),
-  });
-  yPosition -= 18;
+  let page = addPage("first");
+  let box = margins.first;
+  let yPosition = page.getHeight() - box.top;
+  const textWidth = () => page.getWidth() - box.left - box.right;
+
+  // Starts a new page when the next line (or the given height) would not fit
+  const checkNewPage = (height = 0) => {
+    if (yPosition - height < box.bottom) {
+      page = addPage("continuation");
+      box = margins.continuation;
+      yPosition = page.getHeight() - box.top;
+    }
+  };
 
-  for (const goal of report.treatmentPlan.longTermGoals) {
+  const drawLine = (text: string, font: PDFFont, size: number, spaceAfter: number) => {
     checkNewPage();
-    yPosition = drawText(page, {
-      text: `• ${goal}`,
-      x: margin,
-      y: yPosition,
-      size: 12,
-      font: regularFont,
-      maxWidth,
-      lineHeight: 18,
-    });
-  }
-
-  yPosition -= 12;
+    page.drawText(text, { x: box.left, y: yPosition, size, font, color: rgb(0, 0, 0) });
+    yPosition -= spaceAfter;
+  };
 
-  // Prognosis Section
-  checkNewPage();
-  page.drawText("Prognosis:", {
-    x: margin,
-    y: yPosition,
-    size: 14,
-    font: boldFont,
-    color: rgb(0, 0, 0),
-  });
-  yPosition -= 24;
+  // Line by line, so a long paragraph continues on the next page within the margins
+  const drawWrapped = (text: string) => {
+    for (const line of wrapText(text, textWidth(), regularFont, 12)) {
+      drawLine(line, regularFont, 12, 18);
+    }
+  };
 
-  for (const item of report.prognosis) {
-    checkNewPage();
-    yPosition = drawText(page, {
-      text: `• ${item}`,
-      x: margin,
-      y: yPosition,
-      size: 12,
-      font: regularFont,
-      maxWidth,
-      lineHeight: 18,
-    });
+  for (const block of buildReportDocument(report, signatureImages ?? null)) {
+    switch (block.type) {
+      case "title": {
+        // Centered, bold, 20pt (only on the first page)
+        const titleWidth = boldFont.widthOfTextAtSize(block.text, 20);
+        page.drawText(block.text, {
+          x: box.left + (textWidth() - titleWidth) / 2,
+          y: yPosition,
+          size: 20,
+          font: boldFont,
+          color: rgb(0, 0, 0),
+        });
+        yPosition -= 40;
+        break;
+      }
+
+      case "heading": {
+        const { size, spaceAfter } = HEADING_STYLES[block.level];
+        drawLine(block.text, boldFont, size, spaceAfter);
+        break;
+      }
+
+      case "paragraph":
+        drawWrapped(block.text);
+        yPosition -= 12;
+        break;
+
+      case "bullets":
+        block.items.forEach((item) => drawWrapped(`• ${item}`));
+        yPosition -= 12;
+        break;
+
+      case "keyValues":
+        block.entries.forEach(({ label, value }) => drawWrapped(`${label}: ${value}`));
+        yPosition -= 12;
+        break;
+
+      case "table": {
+        // Recomputed per row, as continuation pages may have other margins
+        const columns = () => block.columnWidths.map((width) => width * textWidth());
+        // Wrapped cells make a row taller; the whole row moves to the next page
+        const drawRow = (cells: string[], font: PDFFont) => {
+          let cellLines = wrapTableRow(cells, columns(), font, 11);
+          checkNewPage(extraRowLines(cellLines) * TABLE_LINE_HEIGHT);
+          cellLines = wrapTableRow(cells, columns(), font, 11);
+          yPosition = drawTableRow(page, cellLines, columns(), box.left, yPosition, font, 11);
+        };
+        drawRow(block.header, boldFont);
+        for (const row of block.rows) {
+          drawRow(row, regularFont);
+        }
+        yPosition -= 12;
+        break;
+      }
+
+      case "signature":
+        yPosition -= 12; // Space before signature
+        drawLine(block.greeting, regularFont, 12, 24);
+        block.lines.forEach((line) => drawLine(line, regularFont, 12, 18));
+        drawLine(block.date, regularFont, 12, 24);
+        drawLine(block.stampLabel, regularFont, 12, 12);
+
+        if (block.images.length > 0) {
+          const rowHeight = Math.max(...block.images.map(({ height }) => height));
+          checkNewPage(rowHeight);
+          let x = box.left;
+          for (const { png, height } of block.images) {
+            const width = (png.width / png.height) * height;
+            page.drawImage(await pdfDoc.embedPng(png.data), {
+              x,
+              y: yPosition - height,
+              width,
+              height,
+            });
+            x += width + IMAGE_GAP;
+          }
+          yPosition -= rowHeight;
+        }
+        break;
+    }
   }
 
-  yPosition -= 12;
-
-  // Conclusion Section
-  checkNewPage();
-  page.drawText("Conclusion:", {
-    x: margin,
-    y: yPosition,
-    size: 14,
-    font: boldFont,
-    color: rgb(0, 0, 0),
-  });
-  yPosition -= 24;
-
-  checkNewPage();
-  yPosition = drawText(page, {
-    text: report.conclusion,
-    x: margin,
-    y: yPosition,
-    size: 12,
-    font: regularFont,
-    maxWidth,
-    lineHeight: 18,
-  });
-
-  yPosition -= 24; // Space before signature
-
-  // Signature Section
-  checkNewPage();
-  page.drawText(report.signature.greeting, {
-    x: margin,
-    y: yPosition,
-    size: 12,
-    font: regularFont,
-    color: rgb(0, 0, 0),
-  });
-  yPosition -= 24;
-
-  checkNewPage();
-  page.drawText(report.signature.doctorName, {
-    x: margin,
-    y: yPosition,
-    size: 12,
-    font: regularFont,
-    color: rgb(0, 0, 0),
-  });
-  yPosition -= 18;
-
-  checkNewPage();
-  page.drawText(report.signature.title, {
-    x: margin,
-    y: yPosition,
-    size: 12,
-    font: regularFont,
-    color: rgb(0, 0, 0),
-  });
-  yPosition -= 18;
-
-  checkNewPage();
-  page.drawText(report.signature.dohLicense, {
-    x: margin,
-    y: yPosition,
-    size: 12,
-    font: regularFont,
-    color: rgb(0, 0, 0),
-  });
-  yPosition -= 18;
-
-  checkNewPage();
-  page.drawText(report.signature.facility, {
-    x: margin,
-    y: yPosition,
-    size: 12,
-    font: regularFont,
-    color: rgb(0, 0, 0),
-  });
-  yPosition -= 18;
-
-  checkNewPage();
-  page.drawText(report.signature.date, {
-    x: margin,
-    y: yPosition,
-    size: 12,
-    font: regularFont,
-    color: rgb(0, 0, 0),
-  });
-  yPosition -= 24;
-
-  checkNewPage();
-  page.drawText(report.signature.signatureStamp, {
-    x: margin,
-    y: yPosition,
-    size: 12,
-    font: regularFont,
-    color: rgb(0, 0, 0),
-  });
-
   const pdfBytes = await pdfDoc.save();
   return pdfBytes;
 }
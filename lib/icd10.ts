@@ -0,0 +1,175 @@
+import type { ReportData } from "./schema";
+import codeTable from "./icd10cm.json";
+
+export interface Icd10Code {
+  code: string;
+  description: string;
+  // Header (category) codes are not billable; a more specific child code is required.
+  billable: boolean;
+}
+
+type Laterality = "right" | "left" | "bilateral" | "unspecified";
+
+export interface DiagnosisCodeIssue {
+  diagnosisIndex: number;
+  code: string;
+  // "unlisted" is only a prompt to check the code: the local table is partial,
+  // so a valid code can be missing from it
+  kind: "unlisted" | "non-billable" | "laterality-mismatch";
+  message: string;
+  suggestions: Icd10Code[];
+}
+
+// Local ICD-10-CM subset covering the musculoskeletal, gait and common
+// comorbidity codes used in home physiotherapy reports. It is not the full
+// code set.
+const CODES: Icd10Code[] = codeTable;
+const CODES_BY_CODE = new Map(CODES.map((entry) => [entry.code, entry]));
+
+const MAX_SUGGESTIONS = 5;
+const STOP_WORDS = new Set(["and", "the", "with", "without", "of", "in", "for", "not"]);
+
+export function normalizeCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+export function findIcd10Code(code: string): Icd10Code | undefined {
+  return CODES_BY_CODE.get(normalizeCode(code));
+}
+
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 2 && !STOP_WORDS.has(word));
+}
+
+/**
+ * Matches codes by code prefix, then by descriptions containing every query word.
+ */
+export function searchIcd10(query: string, limit = 20): Icd10Code[] {
+  const normalized = normalizeCode(query);
+  if (!normalized) return [];
+
+  const byCode = CODES.filter((entry) => entry.code.startsWith(normalized));
+  const queryWords = words(query);
+  const byDescription =
+    queryWords.length === 0
+      ? []
+      : CODES.filter((entry) => {
+          const description = entry.description.toLowerCase();
+          return (
+            !byCode.includes(entry) &&
+            queryWords.every((word) => description.includes(word))
+          );
+        });
+
+  return [...byCode, ...byDescription].slice(0, limit);
+}
+
+function textLaterality(text: string): Laterality | null {
+  const lower = text.toLowerCase();
+  if (/\bbilateral\b|\bboth\b/.test(lower)) return "bilateral";
+
+  const right = /\bright\b/.test(lower);
+  const left = /\bleft\b/.test(lower);
+  if (right && left) return "bilateral";
+  if (right) return "right";
+  if (left) return "left";
+  return null;
+}
+
+function codeLaterality(entry: Icd10Code): Laterality | null {
+  const side = textLaterality(entry.description);
+  if (side) return side;
+  return /\bunspecified (side|[a-z ]*(knee|hip|shoulder|ankle|elbow|limb|foot|joint))\b/i.test(
+    entry.description
+  )
+    ? "unspecified"
+    : null;
+}
+
+// Closest billable codes for free text, ranked by shared description words.
+function suggestByText(text: string, exclude: string): Icd10Code[] {
+  const textWords = new Set(words(text));
+
+  return CODES.filter((entry) => entry.billable && entry.code !== exclude)
+    .map((entry) => ({
+      entry,
+      score: words(entry.description).filter((word) => textWords.has(word)).length,
+    }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ entry }) => entry);
+}
+
+/**
+ * Checks report diagnoses against the local ICD-10-CM table. Runs on a report
+ * that already passed ReportSchema.parse. Codes missing from the table are
+ * reported as unlisted rather than invalid.
+ */
+export function validateDiagnosisCodes(
+  diagnoses: ReportData["diagnoses"]
+): DiagnosisCodeIssue[] {
+  const issues: DiagnosisCodeIssue[] = [];
+
+  diagnoses.forEach((diagnosis, diagnosisIndex) => {
+    const code = normalizeCode(diagnosis.code);
+    const text = `${diagnosis.label} ${diagnosis.description}`;
+    const entry = CODES_BY_CODE.get(code);
+
+    if (!entry) {
+      const category = code.split(".")[0];
+      const related = CODES.filter(
+        (candidate) => candidate.billable && candidate.code.startsWith(category)
+      );
+      const byText = suggestByText(text, code);
+      issues.push({
+        diagnosisIndex,
+        code,
+        kind: "unlisted",
+        message: `${code} is not in the local ICD-10-CM list, which covers only common physiotherapy codes; check it against the full code set`,
+        suggestions: [...new Set([...byText, ...related])].slice(0, MAX_SUGGESTIONS),
+      });
+      return;
+    }
+
+    if (!entry.billable) {
+      const children = CODES.filter(
+        (candidate) => candidate.billable && candidate.code.startsWith(code)
+      );
+      const side = textLaterality(text);
+      issues.push({
+        diagnosisIndex,
+        code,
+        kind: "non-billable",
+        message: `${code} is a header code; a more specific billable code is required`,
+        suggestions: children
+          .sort((a, b) => Number(codeLaterality(b) === side) - Number(codeLaterality(a) === side))
+          .slice(0, MAX_SUGGESTIONS),
+      });
+      return;
+    }
+
+    const diagnosisSide = textLaterality(text);
+    const codeSide = codeLaterality(entry);
+    if (diagnosisSide && codeSide && diagnosisSide !== codeSide) {
+      const parent = code.slice(0, -1);
+      issues.push({
+        diagnosisIndex,
+        code,
+        kind: "laterality-mismatch",
+        message: `${code} is coded as ${codeSide} but the diagnosis describes the ${diagnosisSide} side`,
+        suggestions: CODES.filter(
+          (candidate) =>
+            candidate.billable &&
+            candidate.code.startsWith(parent) &&
+            codeLaterality(candidate) === diagnosisSide
+        ).slice(0, MAX_SUGGESTIONS),
+      });
+    }
+  });
+
+  return issues;
+}
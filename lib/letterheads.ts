@@ -0,0 +1,155 @@
+import { randomUUID } from "crypto";
+import { mkdir, readdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import { PDFDocument } from "pdf-lib";
+import { contentBoxError, type LetterheadMargins, type PageMargins } from "./pageMargins";
+
+export interface Letterhead {
+  id: string;
+  name: string;
+  margins: LetterheadMargins;
+  // false when the first-page design is reused for continuation pages
+  hasContinuationPage: boolean;
+  createdAt: string;
+}
+
+// The letterhead pages as single-page PDFs, ready to embed as backgrounds.
+export interface LetterheadAssets {
+  margins: LetterheadMargins;
+  firstPage: Uint8Array;
+  continuationPage: Uint8Array;
+}
+
+export class LetterheadError extends Error {}
+
+function letterheadDir(id?: string): string {
+  const root = process.env.LETTERHEAD_DIR || path.join(process.cwd(), "letterheads");
+  return id ? path.join(root, id) : root;
+}
+
+// Ids are generated here, so anything else is rejected rather than resolved
+function assertId(id: string) {
+  if (!/^[0-9a-f-]{36}$/.test(id)) {
+    throw new LetterheadError(`Unknown letterhead "${id}"`);
+  }
+}
+
+async function firstPageOnly(
+  bytes: Uint8Array,
+  label: string
+): Promise<{ bytes: Uint8Array; width: number; height: number }> {
+  let source: PDFDocument;
+  try {
+    source = await PDFDocument.load(bytes);
+  } catch {
+    throw new LetterheadError(`The ${label} is not a readable PDF`);
+  }
+  if (source.getPageCount() === 0) {
+    throw new LetterheadError(`The ${label} has no pages`);
+  }
+
+  const single = await PDFDocument.create();
+  const [page] = await single.copyPages(source, [0]);
+  single.addPage(page);
+  return { bytes: await single.save(), ...page.getSize() };
+}
+
+// Margins that leave no room for the report on the page they apply to
+function assertContentBox(
+  margins: PageMargins,
+  page: { width: number; height: number },
+  label: string
+) {
+  const error = contentBoxError(margins, page.width, page.height);
+  if (error) {
+    throw new LetterheadError(`${label}: ${error}`);
+  }
+}
+
+export async function listLetterheads(): Promise<Letterhead[]> {
+  let ids: string[];
+  try {
+    ids = await readdir(letterheadDir());
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw err;
+  }
+
+  const letterheads = await Promise.all(
+    ids.map(async (id) => {
+      try {
+        return JSON.parse(
+          await readFile(path.join(letterheadDir(id), "letterhead.json"), "utf8")
+        ) as Letterhead;
+      } catch {
+        return null;
+      }
+    })
+  );
+  return letterheads
+    .filter((letterhead): letterhead is Letterhead => letterhead !== null)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Stores an uploaded letterhead. Only the first page of each PDF is kept;
+ * without a continuation PDF, later pages reuse the first-page design.
+ */
+export async function saveLetterhead(input: {
+  name: string;
+  margins: LetterheadMargins;
+  firstPage: Uint8Array;
+  continuationPage?: Uint8Array;
+}): Promise<Letterhead> {
+  const firstPage = await firstPageOnly(input.firstPage, "first-page letterhead");
+  const continuationPage = input.continuationPage
+    ? await firstPageOnly(input.continuationPage, "continuation-page letterhead")
+    : null;
+  assertContentBox(input.margins.first, firstPage, "First page");
+  // Without a continuation design, later pages reuse the first page
+  assertContentBox(input.margins.continuation, continuationPage ?? firstPage, "Continuation pages");
+
+  const letterhead: Letterhead = {
+    id: randomUUID(),
+    name: input.name,
+    margins: input.margins,
+    hasContinuationPage: continuationPage !== null,
+    createdAt: new Date().toISOString(),
+  };
+
+  const dir = letterheadDir(letterhead.id);
+  await mkdir(dir, { recursive: true });
+  await writeFile(path.join(dir, "first.pdf"), firstPage.bytes);
+  if (continuationPage) {
+    await writeFile(path.join(dir, "continuation.pdf"), continuationPage.bytes);
+  }
+  await writeFile(path.join(dir, "letterhead.json"), JSON.stringify(letterhead, null, 2));
+
+  return letterhead;
+}
+
+export async function loadLetterheadAssets(id: string): Promise<LetterheadAssets> {
+  assertId(id);
+  const dir = letterheadDir(id);
+
+  let letterhead: Letterhead;
+  try {
+    letterhead = JSON.parse(await readFile(path.join(dir, "letterhead.json"), "utf8"));
+  } catch {
+    throw new LetterheadError(`Unknown letterhead "${id}"`);
+  }
+
+  const firstPage = new Uint8Array(await readFile(path.join(dir, "first.pdf")));
+  return {
+    margins: letterhead.margins,
+    firstPage,
+    continuationPage: letterhead.hasContinuationPage
+      ? new Uint8Array(await readFile(path.join(dir, "continuation.pdf")))
+      : firstPage,
+  };
+}
+
+export async function deleteLetterhead(id: string): Promise<void> {
+  assertId(id);
+  await rm(letterheadDir(id), { recursive: true, force: true });
+}
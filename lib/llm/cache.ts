@@ -0,0 +1,61 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import type { ZodType } from "zod";
+import type { CompletionRequest } from "./provider";
+
+export interface CacheKeyParts {
+  model: string;
+  promptVersion: string;
+  request: Omit<CompletionRequest, "signal">;
+}
+
+function cacheDir(): string {
+  return process.env.LLM_CACHE_DIR || path.join(process.cwd(), ".cache", "llm");
+}
+
+export function cacheEnabled(): boolean {
+  return process.env.LLM_CACHE !== "off";
+}
+
+/**
+ * Content address of a call: the model, prompt version, response format and
+ * every message, which carry the image bytes (as data URLs) and clinical text.
+ */
+export function cacheKey({ model, promptVersion, request }: CacheKeyParts): string {
+  return createHash("sha256")
+    .update(
+      JSON.stringify({
+        model,
+        promptVersion,
+        responseFormat: request.responseFormat.json_schema.name,
+        messages: request.messages,
+      })
+    )
+    .digest("hex");
+}
+
+// Entries that no longer match the schema are treated as misses.
+export async function readCache<T>(key: string, schema: ZodType<T>): Promise<T | undefined> {
+  try {
+    const entry = JSON.parse(await readFile(path.join(cacheDir(), `${key}.json`), "utf8"));
+    const result = schema.safeParse(entry.data);
+    return result.success ? result.data : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// A cache that cannot be written must not fail the call that produced the data.
+export async function writeCache(key: string, data: unknown): Promise<void> {
+  const dir = cacheDir();
+  try {
+    await mkdir(dir, { recursive: true });
+    await writeFile(
+      path.join(dir, `${key}.json`),
+      JSON.stringify({ createdAt: new Date().toISOString(), data })
+    );
+  } catch (err) {
+    console.error("Failed to write LLM cache entry:", err);
+  }
+}
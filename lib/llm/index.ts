@@ -0,0 +1,86 @@
+import OpenAI, { AzureOpenAI } from "openai";
+import { createOpenAIProvider } from "./openaiProvider";
+import { createMockProvider } from "./mockProvider";
+import type { LlmProvider } from "./provider";
+
+export type { LlmProvider, CompletionRequest, CompletionResult } from "./provider";
+export {
+  completeStructured,
+  LlmCallError,
+  providerCalls,
+  type AttemptError,
+} from "./structuredCall";
+export {
+  recordDailyUsage,
+  sumUsage,
+  EMPTY_USAGE,
+  type TokenUsage,
+} from "./usage";
+
+const DEFAULT_MODEL = "gpt-4o";
+
+// Retries are handled by completeStructured, not the SDK.
+const SDK_OPTIONS = { maxRetries: 0 };
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} must be set for LLM_PROVIDER=${process.env.LLM_PROVIDER}`);
+  }
+  return value;
+}
+
+function createProvider(): LlmProvider {
+  const provider = process.env.LLM_PROVIDER || "openai";
+  const model = process.env.LLM_MODEL || DEFAULT_MODEL;
+
+  switch (provider) {
+    case "openai":
+      return createOpenAIProvider(
+        "openai",
+        new OpenAI({ ...SDK_OPTIONS, apiKey: process.env.OPENAI_API_KEY! }),
+        model
+      );
+
+    case "azure":
+      return createOpenAIProvider(
+        "azure",
+        new AzureOpenAI({
+          ...SDK_OPTIONS,
+          endpoint: requireEnv("AZURE_OPENAI_ENDPOINT"),
+          apiKey: requireEnv("AZURE_OPENAI_API_KEY"),
+          apiVersion: process.env.AZURE_OPENAI_API_VERSION || "2024-10-21",
+          deployment: requireEnv("AZURE_OPENAI_DEPLOYMENT"),
+        }),
+        model
+      );
+
+    case "local":
+      return createOpenAIProvider(
+        "local",
+        new OpenAI({
+          ...SDK_OPTIONS,
+          baseURL: requireEnv("LOCAL_LLM_BASE_URL"),
+          // Most local servers ignore the key, but the SDK requires one.
+          apiKey: process.env.LOCAL_LLM_API_KEY || "local",
+        }),
+        model
+      );
+
+    case "mock":
+      return createMockProvider(process.env.MOCK_LLM_FIXTURES_DIR);
+
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${provider}"`);
+  }
+}
+
+let cachedProvider: LlmProvider | undefined;
+
+/**
+ * The configured provider, selected by the LLM_PROVIDER environment variable.
+ */
+export function getLlmProvider(): LlmProvider {
+  cachedProvider ??= createProvider();
+  return cachedProvider;
+}
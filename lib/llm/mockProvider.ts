@@ -0,0 +1,62 @@
+import fs from "fs/promises";
+import path from "path";
+import type { LlmProvider } from "./provider";
+import reportFixture from "./fixtures/thiqa_medical_report.json";
+import patientInfoFixture from "./fixtures/patient_info_extraction.json";
+import patientListFixture from "./fixtures/patient_list_extraction.json";
+import criticReviewFixture from "./fixtures/report_critic_review.json";
+import { getSection, SECTION_KEYS } from "../reportSections";
+import type { ReportData } from "../schema";
+
+// Built-in fixtures, keyed by response format name.
+const DEFAULT_FIXTURES: Record<string, unknown> = {
+  thiqa_medical_report: reportFixture,
+  patient_info_extraction: patientInfoFixture,
+  patient_list_extraction: patientListFixture,
+  report_critic_review: criticReviewFixture,
+};
+
+async function loadFixture(
+  fixturesDir: string | undefined,
+  name: string
+): Promise<unknown> {
+  if (fixturesDir) {
+    try {
+      const file = await fs.readFile(path.join(fixturesDir, `${name}.json`), "utf8");
+      return JSON.parse(file);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+    }
+  }
+
+  // Section regeneration answers with that section of the report fixture
+  const section = SECTION_KEYS.find(
+    (key) => name === `report_section_${key.replace(/\./g, "_")}`
+  );
+  if (section) {
+    return { value: getSection(reportFixture as ReportData, section) };
+  }
+
+  if (!(name in DEFAULT_FIXTURES)) {
+    throw new Error(`No mock fixture for response format "${name}"`);
+  }
+  return DEFAULT_FIXTURES[name];
+}
+
+/**
+ * Offline provider that answers every request with a fixed fixture for the
+ * requested response format. Fixtures in fixturesDir override the built-in ones.
+ */
+export function createMockProvider(fixturesDir?: string): LlmProvider {
+  return {
+    name: "mock",
+    model: "mock",
+    async complete({ responseFormat }) {
+      const fixture = await loadFixture(fixturesDir, responseFormat.json_schema.name);
+      return {
+        content: JSON.stringify(fixture),
+        usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+      };
+    },
+  };
+}
@@ -0,0 +1,34 @@
+import OpenAI from "openai";
+import type { LlmProvider } from "./provider";
+
+/**
+ * Provider for any client speaking the OpenAI chat-completions API:
+ * OpenAI itself, Azure OpenAI, or an OpenAI-compatible local server.
+ */
+export function createOpenAIProvider(
+  name: string,
+  client: OpenAI,
+  model: string
+): LlmProvider {
+  return {
+    name,
+    model,
+    async complete({ messages, responseFormat, signal }) {
+      const response = await client.chat.completions.create(
+        {
+          model,
+          messages,
+          response_format: responseFormat,
+        },
+        { signal }
+      );
+
+      const content = response.choices[0]?.message?.content;
+      if (!content) {
+        throw new Error(`No response content received from ${name}`);
+      }
+
+      return { content, usage: response.usage };
+    },
+  };
+}
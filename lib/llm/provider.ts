@@ -0,0 +1,25 @@
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import type { CompletionUsage } from "openai/resources/completions";
+import type { ResponseFormatJSONSchema } from "openai/resources/shared";
+
+export interface CompletionRequest {
+  messages: ChatCompletionMessageParam[];
+  // Strict JSON schema format, see lib/responseFormats.ts
+  responseFormat: ResponseFormatJSONSchema;
+  signal?: AbortSignal;
+}
+
+export interface CompletionResult {
+  content: string;
+  usage?: CompletionUsage;
+}
+
+/**
+ * A chat-completion backend. Every LLM call in the API routes goes through
+ * this interface so the backend can be swapped by configuration.
+ */
+export interface LlmProvider {
+  name: string;
+  model: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+}
@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { CompletionResult } from "./provider";
+import { createScheduler, estimateTokens, TOKENS_PER_IMAGE } from "./scheduler";
+
+// A call the test finishes by hand, reporting the given token usage
+function controlledCall(totalTokens?: number) {
+  let finish!: () => void;
+  let fail!: (err: Error) => void;
+  const call = vi.fn(
+    () =>
+      new Promise<CompletionResult>((resolve, reject) => {
+        finish = () =>
+          resolve({
+            content: "{}",
+            usage:
+              totalTokens === undefined
+                ? undefined
+                : { prompt_tokens: totalTokens, completion_tokens: 0, total_tokens: totalTokens },
+          });
+        fail = reject;
+      })
+  );
+  return {
+    call,
+    finish: () => finish(),
+    fail: (err: Error) => fail(err),
+    started: () => call.mock.calls.length > 0,
+  };
+}
+
+// Let queued promise callbacks run
+const settle = () => vi.advanceTimersByTimeAsync(0);
+
+describe("createScheduler", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("runs at most `concurrency` calls at once, in arrival order", async () => {
+    const scheduler = createScheduler({ concurrency: 2, tokensPerMinute: null });
+    const calls = [controlledCall(), controlledCall(), controlledCall()];
+    calls.forEach(({ call }) => scheduler.run(10, call));
+    await settle();
+
+    expect(calls.map((c) => c.started())).toEqual([true, true, false]);
+
+    calls[1].finish();
+    await settle();
+    expect(calls[2].started()).toBe(true);
+  });
+
+  it("frees the slot of a failed call", async () => {
+    const scheduler = createScheduler({ concurrency: 1, tokensPerMinute: null });
+    const first = controlledCall();
+    const second = controlledCall();
+    const failed = scheduler.run(10, first.call);
+    scheduler.run(10, second.call);
+    await settle();
+
+    first.fail(new Error("HTTP 500"));
+    await expect(failed).rejects.toThrow("HTTP 500");
+    await settle();
+    expect(second.started()).toBe(true);
+  });
+
+  it("drops a queued call whose signal aborts", async () => {
+    const scheduler = createScheduler({ concurrency: 1, tokensPerMinute: null });
+    const first = controlledCall();
+    const dropped = controlledCall();
+    const next = controlledCall();
+    const controller = new AbortController();
+    scheduler.run(10, first.call);
+    const result = scheduler.run(10, dropped.call, controller.signal);
+    scheduler.run(10, next.call);
+    await settle();
+
+    controller.abort();
+    await expect(result).rejects.toThrow();
+    first.finish();
+    await settle();
+    expect(dropped.started()).toBe(false);
+    expect(next.started()).toBe(true);
+  });
+
+  it("holds calls that would overrun the token budget until the window moves on", async () => {
+    const scheduler = createScheduler({ concurrency: 4, tokensPerMinute: 1_000 });
+    const first = controlledCall(600);
+    const second = controlledCall(600);
+    scheduler.run(600, first.call);
+    scheduler.run(600, second.call);
+    await settle();
+    first.finish();
+    await settle();
+
+    expect(second.started()).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(59_999);
+    expect(second.started()).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(second.started()).toBe(true);
+  });
+
+  it("replaces the estimate with the usage the provider reports", async () => {
+    const scheduler = createScheduler({ concurrency: 4, tokensPerMinute: 1_000 });
+    const first = controlledCall(100);
+    const second = controlledCall();
+    scheduler.run(900, first.call);
+    scheduler.run(800, second.call);
+    await settle();
+
+    // Waiting on the 900-token estimate
+    expect(second.started()).toBe(false);
+
+    // Only 100 tokens were used, so 800 more fit within the same minute
+    first.finish();
+    await settle();
+    expect(second.started()).toBe(true);
+  });
+
+  it("runs a call larger than the whole budget once the window is empty", async () => {
+    const scheduler = createScheduler({ concurrency: 4, tokensPerMinute: 1_000 });
+    const large = controlledCall();
+    scheduler.run(5_000, large.call);
+    await settle();
+
+    expect(large.started()).toBe(true);
+  });
+});
+
+describe("estimateTokens", () => {
+  it("counts text by characters and images at a flat rate", () => {
+    const text = estimateTokens({ messages: [{ role: "user", content: "x".repeat(400) }] });
+    const withImage = estimateTokens({
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: "x".repeat(400) },
+            { type: "image_url", image_url: { url: "data:image/png;base64," } },
+          ],
+        },
+      ],
+    });
+
+    expect(withImage - text).toBe(TOKENS_PER_IMAGE);
+    expect(text - estimateTokens({ messages: [{ role: "user", content: "" }] })).toBe(100);
+  });
+});
@@ -0,0 +1,165 @@
+import type { CompletionRequest, CompletionResult } from "./provider";
+
+export interface SchedulerOptions {
+  // Provider calls allowed in flight at once
+  concurrency: number;
+  // Prompt + completion tokens allowed per rolling minute; null for no budget
+  tokensPerMinute: number | null;
+}
+
+export interface LlmScheduler {
+  /**
+   * Runs the call once a slot and enough token budget are free. The estimate
+   * is reserved up front and replaced by the reported usage when available.
+   * Aborting the signal while the call is still queued drops it unrun.
+   */
+  run(
+    estimatedTokens: number,
+    call: () => Promise<CompletionResult>,
+    signal?: AbortSignal
+  ): Promise<CompletionResult>;
+}
+
+interface Pending {
+  estimatedTokens: number;
+  start: () => void;
+}
+
+interface Spend {
+  at: number;
+  tokens: number;
+}
+
+const WINDOW_MS = 60_000;
+
+// Rough estimate used before the provider reports real usage.
+const CHARS_PER_TOKEN = 4;
+export const TOKENS_PER_IMAGE = 1_000;
+const EXPECTED_COMPLETION_TOKENS = 1_500;
+
+function countContent(request: Pick<CompletionRequest, "messages">) {
+  let chars = 0;
+  let images = 0;
+
+  for (const message of request.messages) {
+    const content = message.content;
+    if (typeof content === "string") {
+      chars += content.length;
+    } else if (Array.isArray(content)) {
+      for (const part of content) {
+        if (part.type === "text") chars += part.text.length;
+        else if (part.type === "image_url") images++;
+      }
+    }
+  }
+
+  return { chars, images };
+}
+
+export function countImages(request: Pick<CompletionRequest, "messages">): number {
+  return countContent(request).images;
+}
+
+export function estimateTokens(request: Pick<CompletionRequest, "messages">): number {
+  const { chars, images } = countContent(request);
+
+  return (
+    Math.ceil(chars / CHARS_PER_TOKEN) +
+    images * TOKENS_PER_IMAGE +
+    EXPECTED_COMPLETION_TOKENS
+  );
+}
+
+export function createScheduler({
+  concurrency,
+  tokensPerMinute,
+}: SchedulerOptions): LlmScheduler {
+  const queue: Pending[] = [];
+  let spends: Spend[] = [];
+  let active = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  function spentInWindow(now: number): number {
+    spends = spends.filter((spend) => spend.at > now - WINDOW_MS);
+    return spends.reduce((total, spend) => total + spend.tokens, 0);
+  }
+
+  function pump() {
+    while (active < concurrency && queue.length > 0) {
+      const next = queue[0];
+      const now = Date.now();
+
+      // A call larger than the whole budget still runs once the window is empty
+      if (
+        tokensPerMinute !== null &&
+        spentInWindow(now) > 0 &&
+        spentInWindow(now) + next.estimatedTokens > tokensPerMinute
+      ) {
+        if (!timer) {
+          const wait = spends[0].at + WINDOW_MS - now;
+          timer = setTimeout(() => {
+            timer = undefined;
+            pump();
+          }, wait);
+        }
+        return;
+      }
+
+      queue.shift();
+      active++;
+      next.start();
+    }
+  }
+
+  return {
+    run(estimatedTokens, call, signal) {
+      return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(signal.reason);
+          return;
+        }
+
+        const onAbort = () => {
+          queue.splice(queue.indexOf(pending), 1);
+          reject(signal?.reason);
+          pump();
+        };
+        const pending: Pending = {
+          estimatedTokens,
+          start: () => {
+            signal?.removeEventListener("abort", onAbort);
+            const spend: Spend = { at: Date.now(), tokens: estimatedTokens };
+            spends.push(spend);
+
+            call()
+              .then((result) => {
+                if (result.usage) spend.tokens = result.usage.total_tokens;
+                resolve(result);
+              }, reject)
+              .finally(() => {
+                active--;
+                pump();
+              });
+          },
+        };
+        signal?.addEventListener("abort", onAbort, { once: true });
+        queue.push(pending);
+        pump();
+      });
+    },
+  };
+}
+
+let cachedScheduler: LlmScheduler | undefined;
+
+/**
+ * The process-wide scheduler shared by every LLM route, configured by
+ * LLM_CONCURRENCY and LLM_TOKENS_PER_MINUTE.
+ */
+export function getLlmScheduler(): LlmScheduler {
+  cachedScheduler ??= createScheduler({
+    concurrency: Number(process.env.LLM_CONCURRENCY) || 4,
+    tokensPerMinute: Number(process.env.LLM_TOKENS_PER_MINUTE) || null,
+  });
+  return cachedScheduler;
+}
@@ -0,0 +1,177 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import type { CompletionRequest, CompletionResult, LlmProvider } from "./provider";
+import { createScheduler } from "./scheduler";
+import { completeStructured, LlmCallError, providerCalls } from "./structuredCall";
+
+const Schema = z.object({ answer: z.number() });
+
+const REQUEST = {
+  messages: [{ role: "user" as const, content: "What is six times seven?" }],
+  responseFormat: {
+    type: "json_schema" as const,
+    json_schema: { name: "answer", strict: true, schema: {} },
+  },
+};
+
+const USAGE = { prompt_tokens: 100, completion_tokens: 10, total_tokens: 110 };
+
+type Step = (request: CompletionRequest) => Promise<CompletionResult> | CompletionResult;
+
+// Replays one step per call and keeps every request it was sent
+function scriptedProvider(steps: Step[]) {
+  const requests: CompletionRequest[] = [];
+  const provider: LlmProvider = {
+    name: "scripted",
+    model: "gpt-4o",
+    async complete(request) {
+      requests.push(request);
+      const step = steps[requests.length - 1];
+      if (!step) throw new Error("No more scripted replies");
+      return step(request);
+    },
+  };
+  return { provider, requests };
+}
+
+function httpError(status: number, headers: Record<string, string> = {}) {
+  return () => {
+    throw Object.assign(new Error(`HTTP ${status}`), { status, headers });
+  };
+}
+
+const reply = (content: string): Step => () => ({ content, usage: USAGE });
+
+// Backoff in milliseconds so the retries run quickly
+const OPTIONS = {
+  baseDelayMs: 1,
+  maxDelayMs: 1,
+  scheduler: createScheduler({ concurrency: 1, tokensPerMinute: null }),
+};
+
+describe("completeStructured", () => {
+  it("retries rate limits and server errors, then returns the validated reply", async () => {
+    const { provider, requests } = scriptedProvider([
+      httpError(429),
+      httpError(503),
+      reply('{"answer": 42}'),
+    ]);
+
+    const result = await completeStructured(provider, REQUEST, Schema, OPTIONS);
+
+    expect(result.data).toEqual({ answer: 42 });
+    expect(result.attempts.map(({ kind, status }) => ({ kind, status }))).toEqual([
+      { kind: "rate-limit", status: 429 },
+      { kind: "server", status: 503 },
+    ]);
+    expect(requests).toHaveLength(3);
+    expect(providerCalls(result)).toBe(3);
+  });
+
+  it("waits as long as retry-after asks rather than the backoff", async () => {
+    const { provider } = scriptedProvider([
+      httpError(429, { "retry-after-ms": "5" }),
+      reply('{"answer": 42}'),
+    ]);
+
+    // Without retry-after the one-minute backoff would outlast the test timeout
+    const result = await completeStructured(provider, REQUEST, Schema, {
+      ...OPTIONS,
+      baseDelayMs: 60_000,
+      maxDelayMs: 60_000,
+    });
+
+    expect(result.data).toEqual({ answer: 42 });
+  });
+
+  it("does not retry a rejected request", async () => {
+    const { provider, requests } = scriptedProvider([httpError(400), reply('{"answer": 42}')]);
+
+    const error = await completeStructured(provider, REQUEST, Schema, OPTIONS).catch((err) => err);
+
+    expect(error).toBeInstanceOf(LlmCallError);
+    expect((error as LlmCallError).attempts).toEqual([
+      { attempt: 1, kind: "request", message: "HTTP 400", status: 400 },
+    ]);
+    expect(requests).toHaveLength(1);
+  });
+
+  it("classifies a call that outlives the timeout", async () => {
+    const hang: Step = ({ signal }) =>
+      new Promise((_, reject) => signal?.addEventListener("abort", () => reject(signal.reason)));
+    const { provider } = scriptedProvider([hang, reply('{"answer": 42}')]);
+
+    const result = await completeStructured(provider, REQUEST, Schema, {
+      ...OPTIONS,
+      timeoutMs: 10,
+    });
+
+    expect(result.attempts.map(({ kind }) => kind)).toEqual(["timeout"]);
+  });
+
+  it("stops retrying once the caller aborts", async () => {
+    const controller = new AbortController();
+    const hang: Step = ({ signal }) =>
+      new Promise((_, reject) => signal?.addEventListener("abort", () => reject(signal.reason)));
+    const { provider, requests } = scriptedProvider([hang, reply('{"answer": 42}')]);
+
+    const pending = completeStructured(provider, REQUEST, Schema, {
+      ...OPTIONS,
+      signal: controller.signal,
+    }).catch((err) => err);
+    setTimeout(() => controller.abort(), 5);
+    const error = await pending;
+
+    expect(error).toBeInstanceOf(LlmCallError);
+    expect((error as LlmCallError).attempts.map(({ kind }) => kind)).toEqual(["cancelled"]);
+    expect(requests).toHaveLength(1);
+  });
+
+  it("accepts JSON wrapped in a code fence without re-asking", async () => {
+    const { provider, requests } = scriptedProvider([
+      reply('Here you go:\n```json\n{"answer": 42}\n```'),
+    ]);
+
+    const result = await completeStructured(provider, REQUEST, Schema, OPTIONS);
+
+    expect(result.data).toEqual({ answer: 42 });
+    expect(requests).toHaveLength(1);
+  });
+
+  it("re-asks with the invalid reply and the validation error", async () => {
+    const { provider, requests } = scriptedProvider([
+      reply('{"answer": "forty-two"}'),
+      reply('{"answer": 42}'),
+    ]);
+
+    const result = await completeStructured(provider, REQUEST, Schema, OPTIONS);
+
+    expect(result.data).toEqual({ answer: 42 });
+    expect(result.attempts.map(({ kind }) => kind)).toEqual(["invalid-schema"]);
+    expect(requests[1].messages.slice(0, 2)).toEqual([
+      ...REQUEST.messages,
+      { role: "assistant", content: '{"answer": "forty-two"}' },
+    ]);
+    expect(requests[1].messages[2]).toMatchObject({
+      role: "user",
+      content: expect.stringContaining("Your previous response was not valid (invalid-schema)"),
+    });
+    // Both replies were billed
+    expect(result.usage.totalTokens).toBe(2 * USAGE.total_tokens);
+  });
+
+  it("gives up after maxAttempts with every attempt and the tokens spent", async () => {
+    const { provider } = scriptedProvider([reply("not json"), reply("still not json")]);
+
+    const error = await completeStructured(provider, REQUEST, Schema, {
+      ...OPTIONS,
+      maxAttempts: 2,
+    }).catch((err) => err);
+
+    expect(error).toBeInstanceOf(LlmCallError);
+    const { attempts, usage } = error as LlmCallError;
+    expect(attempts.map(({ kind }) => kind)).toEqual(["invalid-json", "invalid-json"]);
+    expect(usage.totalTokens).toBe(2 * USAGE.total_tokens);
+    expect(providerCalls(error)).toBe(2);
+  });
+});
@@ -0,0 +1,284 @@
+import { APIConnectionError } from "openai";
+import type { ZodType } from "zod";
+import type { CompletionUsage } from "openai/resources/completions";
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import type { CompletionRequest, LlmProvider } from "./provider";
+import { cacheEnabled, cacheKey, readCache, writeCache } from "./cache";
+import {
+  countImages,
+  estimateTokens,
+  getLlmScheduler,
+  type LlmScheduler,
+} from "./scheduler";
+import { addUsage, EMPTY_USAGE, priceUsage, type TokenUsage } from "./usage";
+
+export interface AttemptError {
+  attempt: number;
+  kind:
+    | "rate-limit"
+    | "timeout"
+    | "server"
+    | "connection"
+    | "invalid-json"
+    | "invalid-schema"
+    | "request"
+    | "cancelled";
+  message: string;
+  status?: number;
+}
+
+/**
+ * Thrown once every attempt has failed; carries the per-attempt details and
+ * the tokens the failed attempts still consumed.
+ */
+export class LlmCallError extends Error {
+  readonly attempts: AttemptError[];
+  readonly usage: TokenUsage;
+
+  constructor(message: string, attempts: AttemptError[], usage: TokenUsage) {
+    super(message);
+    this.name = "LlmCallError";
+    this.attempts = attempts;
+    this.usage = usage;
+  }
+}
+
+export interface StructuredCallOptions {
+  maxAttempts?: number;
+  timeoutMs?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  scheduler?: LlmScheduler;
+  // Consult and fill the response cache, keyed with this prompt version
+  cache?: { promptVersion: string; bypass?: boolean };
+  // Called once, when the first attempt leaves the scheduler queue
+  onStart?: () => void;
+  // Abandons the call, queued, in flight or backing off, e.g. when the client goes away
+  signal?: AbortSignal;
+}
+
+export interface StructuredCallResult<T> {
+  data: T;
+  // Failed attempts before the successful one
+  attempts: AttemptError[];
+  // Summed over every attempt, including invalid replies; zero on a cache hit
+  usage: TokenUsage;
+  // Served from the response cache without calling the provider
+  cached: boolean;
+}
+
+/**
+ * Provider calls behind a structured call: one per attempt, failed or not,
+ * and none when the reply came from the cache.
+ */
+export function providerCalls(outcome: StructuredCallResult<unknown> | LlmCallError): number {
+  if (outcome instanceof LlmCallError) return outcome.attempts.length;
+  return outcome.cached ? 0 : outcome.attempts.length + 1;
+}
+
+const DEFAULT_OPTIONS: Required<
+  Omit<StructuredCallOptions, "scheduler" | "cache" | "onStart" | "signal">
+> = {
+  maxAttempts: Number(process.env.LLM_MAX_ATTEMPTS) || 4,
+  timeoutMs: Number(process.env.LLM_TIMEOUT_MS) || 120_000,
+  baseDelayMs: 1_000,
+  maxDelayMs: 30_000,
+};
+
+// Resolves early when the signal aborts; the caller checks it afterwards
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+}
+
+// Duck-typed so HTTP errors from any provider client are understood.
+function errorStatus(err: unknown): number | undefined {
+  const status = (err as { status?: unknown })?.status;
+  return typeof status === "number" ? status : undefined;
+}
+
+function retryAfterMs(err: unknown): number | undefined {
+  const headers = (err as { headers?: unknown })?.headers;
+  const get = (name: string): string | null | undefined =>
+    headers instanceof Headers
+      ? headers.get(name)
+      : (headers as Record<string, string> | undefined)?.[name];
+
+  const ms = Number(get("retry-after-ms"));
+  if (ms > 0) return ms;
+
+  const retryAfter = get("retry-after");
+  if (!retryAfter) return undefined;
+  const seconds = Number(retryAfter);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function classifyRequestError(err: unknown, timedOut: boolean): AttemptError["kind"] {
+  const status = errorStatus(err);
+  if (timedOut || status === 408) return "timeout";
+  if (status === 429) return "rate-limit";
+  if (err instanceof APIConnectionError) return "connection";
+  if (status === undefined) return "request";
+  if (status >= 500 || status === 409) return "server";
+  return "request";
+}
+
+// Undo the usual ways a model wraps JSON: code fences and surrounding prose.
+function repairJson(content: string): string {
+  const unfenced = content.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, "");
+  const start = unfenced.indexOf("{");
+  const end = unfenced.lastIndexOf("}");
+  return start !== -1 && end > start ? unfenced.slice(start, end + 1) : unfenced;
+}
+
+function parseContent<T>(
+  content: string,
+  schema: ZodType<T>
+): { data: T } | { kind: "invalid-json" | "invalid-schema"; message: string } {
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch {
+    try {
+      json = JSON.parse(repairJson(content));
+    } catch (err) {
+      return { kind: "invalid-json", message: (err as Error).message };
+    }
+  }
+
+  const result = schema.safeParse(json);
+  return result.success
+    ? { data: result.data }
+    : { kind: "invalid-schema", message: result.error.message };
+}
+
+/**
+ * Calls the provider and validates the JSON reply against a schema, with
+ * exponential backoff (honoring retry-after) for rate limits, timeouts and
+ * server errors, and a re-ask when the reply is not valid JSON for the schema.
+ * Each attempt waits its turn on the shared scheduler; backoff does not hold a slot.
+ * With `cache`, a previous validated reply for identical input is returned instead.
+ * Aborting `signal` ends the call with an LlmCallError carrying the usage so far.
+ */
+export async function completeStructured<T>(
+  provider: LlmProvider,
+  request: Omit<CompletionRequest, "signal">,
+  schema: ZodType<T>,
+  options: StructuredCallOptions = {}
+): Promise<StructuredCallResult<T>> {
+  const { maxAttempts, timeoutMs, baseDelayMs, maxDelayMs } = {
+    ...DEFAULT_OPTIONS,
+    ...options,
+  };
+  const scheduler = options.scheduler ?? getLlmScheduler();
+
+  const key =
+    options.cache && cacheEnabled()
+      ? cacheKey({ model: provider.model, promptVersion: options.cache.promptVersion, request })
+      : undefined;
+  if (key && !options.cache?.bypass) {
+    const hit = await readCache(key, schema);
+    if (hit !== undefined) {
+      return { data: hit, attempts: [], usage: EMPTY_USAGE, cached: true };
+    }
+  }
+  const attempts: AttemptError[] = [];
+  let totalUsage = EMPTY_USAGE;
+  let messages: ChatCompletionMessageParam[] = request.messages;
+
+  const cancelled = () =>
+    new LlmCallError(
+      `LLM call cancelled after ${attempts.length} attempt(s)`,
+      attempts,
+      totalUsage
+    );
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    if (options.signal?.aborted) throw cancelled();
+
+    let timeout: AbortSignal | undefined;
+    let content: string;
+    let usage: CompletionUsage | undefined;
+
+    try {
+      ({ content, usage } = await scheduler.run(
+        estimateTokens({ messages }),
+        () => {
+          // The timeout starts when the call leaves the queue
+          if (attempt === 1) options.onStart?.();
+          timeout = AbortSignal.timeout(timeoutMs);
+          const signal = options.signal
+            ? AbortSignal.any([timeout, options.signal])
+            : timeout;
+          return provider.complete({ ...request, messages, signal });
+        },
+        options.signal
+      ));
+    } catch (err) {
+      if (options.signal?.aborted) {
+        // Only a call that left the queue reached the provider
+        if (timeout) {
+          attempts.push({ attempt, kind: "cancelled", message: (err as Error).message });
+        }
+        throw cancelled();
+      }
+
+      const kind = classifyRequestError(err, timeout?.aborted ?? false);
+      attempts.push({
+        attempt,
+        kind,
+        message: (err as Error).message,
+        status: errorStatus(err),
+      });
+
+      if (kind === "request" || attempt === maxAttempts) break;
+
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+      await sleep(retryAfterMs(err) ?? backoff * (0.5 + Math.random() / 2), options.signal);
+      continue;
+    }
+
+    if (usage) {
+      totalUsage = addUsage(
+        totalUsage,
+        await priceUsage(provider.model, usage, countImages({ messages }))
+      );
+    }
+
+    const parsed = parseContent(content, schema);
+    if ("data" in parsed) {
+      if (key) await writeCache(key, parsed.data);
+      return { data: parsed.data, attempts, usage: totalUsage, cached: false };
+    }
+
+    attempts.push({ attempt, kind: parsed.kind, message: parsed.message });
+
+    // Re-ask with the invalid reply and the validation error
+    messages = [
+      ...request.messages,
+      { role: "assistant", content },
+      {
+        role: "user",
+        content: `Your previous response was not valid (${parsed.kind}): ${parsed.message}\nReturn the corrected JSON object only.`,
+      },
+    ];
+  }
+
+  const last = attempts[attempts.length - 1];
+  throw new LlmCallError(
+    `LLM call failed after ${attempts.length} attempt(s): ${last?.message ?? "unknown error"}`,
+    attempts,
+    totalUsage
+  );
+}
@@ -0,0 +1,158 @@
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import type { CompletionUsage } from "openai/resources/completions";
+import defaultPrices from "./prices.json";
+import { TOKENS_PER_IMAGE } from "./scheduler";
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  // Estimated share of promptTokens spent on images; providers do not report it
+  imageTokens: number;
+  totalTokens: number;
+  // null when the model has no entry in the price table or it failed to load
+  costUsd: number | null;
+}
+
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export interface DailyUsage extends TokenUsage {
+  date: string;
+  calls: number;
+  byRoute: Record<string, TokenUsage & { calls: number }>;
+}
+
+export const EMPTY_USAGE: TokenUsage = {
+  promptTokens: 0,
+  completionTokens: 0,
+  imageTokens: 0,
+  totalTokens: 0,
+  costUsd: 0,
+};
+
+let cachedPrices: Promise<Record<string, ModelPrice>> | undefined;
+
+// Prices in USD per million tokens, from LLM_PRICES_FILE or the built-in table.
+// A file that fails to load is retried on the next call rather than cached.
+function loadPrices(): Promise<Record<string, ModelPrice>> {
+  if (!cachedPrices) {
+    const loading: Promise<Record<string, ModelPrice>> = process.env.LLM_PRICES_FILE
+      ? readFile(process.env.LLM_PRICES_FILE, "utf8").then(JSON.parse)
+      : Promise.resolve(defaultPrices);
+    loading.catch(() => {
+      if (cachedPrices === loading) cachedPrices = undefined;
+    });
+    cachedPrices = loading;
+  }
+  return cachedPrices;
+}
+
+function roundCost(cost: number): number {
+  return Math.round(cost * 1e6) / 1e6;
+}
+
+export async function priceUsage(
+  model: string,
+  usage: CompletionUsage,
+  images: number
+): Promise<TokenUsage> {
+  let price: ModelPrice | undefined;
+  try {
+    price = (await loadPrices())[model];
+  } catch (err) {
+    // Token counts are still worth recording without a cost
+    console.error("Failed to load LLM prices:", err);
+  }
+
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    imageTokens: Math.min(usage.prompt_tokens, images * TOKENS_PER_IMAGE),
+    totalTokens: usage.total_tokens,
+    costUsd: price
+      ? roundCost(
+          (usage.prompt_tokens * price.inputPerMillion +
+            usage.completion_tokens * price.outputPerMillion) /
+            1e6
+        )
+      : null,
+  };
+}
+
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    imageTokens: a.imageTokens + b.imageTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+    costUsd: a.costUsd === null || b.costUsd === null ? null : roundCost(a.costUsd + b.costUsd),
+  };
+}
+
+export function sumUsage(usages: TokenUsage[]): TokenUsage {
+  return usages.reduce(addUsage, EMPTY_USAGE);
+}
+
+function usageDir(): string {
+  return process.env.LLM_USAGE_DIR || path.join(process.cwd(), "usage");
+}
+
+function usageFile(date: string): string {
+  return path.join(usageDir(), `${date}.json`);
+}
+
+export async function readDailyUsage(date: string): Promise<DailyUsage | undefined> {
+  try {
+    return JSON.parse(await readFile(usageFile(date), "utf8"));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw err;
+  }
+}
+
+// Serializes read-modify-write of the daily file within this process.
+let pendingWrite: Promise<void> = Promise.resolve();
+
+/**
+ * Adds one request's usage to today's totals (UTC) in usage/<date>.json.
+ */
+export function recordDailyUsage(route: string, calls: number, usage: TokenUsage): Promise<void> {
+  const date = new Date().toISOString().split("T")[0];
+
+  pendingWrite = pendingWrite.then(async () => {
+    try {
+      const daily: DailyUsage = (await readDailyUsage(date)) ?? {
+        date,
+        calls: 0,
+        ...EMPTY_USAGE,
+        byRoute: {},
+      };
+      const routeTotals = daily.byRoute[route] ?? { calls: 0, ...EMPTY_USAGE };
+
+      await mkdir(usageDir(), { recursive: true });
+      await writeFile(
+        usageFile(date),
+        JSON.stringify(
+          {
+            ...daily,
+            ...addUsage(daily, usage),
+            calls: daily.calls + calls,
+            byRoute: {
+              ...daily.byRoute,
+              [route]: { ...addUsage(routeTotals, usage), calls: routeTotals.calls + calls },
+            },
+          },
+          null,
+          2
+        )
+      );
+    } catch (err) {
+      console.error("Failed to record LLM usage:", err);
+    }
+  });
+
+  return pendingWrite;
+}
@@ -0,0 +1,45 @@
+import { z } from "zod";
+
+// Blank space, in points, around the report text on a PDF page. Shared with
+// the client; stored letterheads are handled in letterheads.ts.
+export const PageMarginsSchema = z.object({
+  top: z.number().min(0),
+  bottom: z.number().min(0),
+  left: z.number().min(0),
+  right: z.number().min(0),
+});
+
+export const LetterheadMarginsSchema = z.object({
+  first: PageMarginsSchema,
+  continuation: PageMarginsSchema,
+});
+
+export type PageMargins = z.infer<typeof PageMarginsSchema>;
+export type LetterheadMargins = z.infer<typeof LetterheadMarginsSchema>;
+
+// Smallest text area, in points, the margins must leave on a page
+export const MIN_CONTENT_BOX = { width: 250, height: 200 };
+
+/**
+ * Why the margins leave too little room for the report text on a page of
+ * this size, or null when they fit. The schemas cannot check this, as the
+ * page size comes from the letterhead PDF.
+ */
+export function contentBoxError(
+  margins: PageMargins,
+  pageWidth: number,
+  pageHeight: number
+): string | null {
+  const width = pageWidth - margins.left - margins.right;
+  const height = pageHeight - margins.top - margins.bottom;
+  if (width >= MIN_CONTENT_BOX.width && height >= MIN_CONTENT_BOX.height) {
+    return null;
+  }
+  return `The margins leave ${Math.max(0, Math.round(width))} × ${Math.max(0, Math.round(height))} pt for text on a ${Math.round(pageWidth)} × ${Math.round(pageHeight)} pt page; at least ${MIN_CONTENT_BOX.width} × ${MIN_CONTENT_BOX.height} pt is needed`;
+}
+
+// Margins for plain A4 pages, leaving room to print on paper letterhead
+export const DEFAULT_MARGINS: LetterheadMargins = {
+  first: { top: 230, bottom: 100, left: 50, right: 50 },
+  continuation: { top: 230, bottom: 100, left: 50, right: 50 },
+};
@@ -0,0 +1,102 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { z } from "zod";
+import type { ReportData } from "./schema";
+import { reportHash, type ReportApproval } from "./reportApproval";
+
+// One entry of physicians/physicians.json. Image paths are file names in
+// the same folder.
+export const PhysicianSchema = z.object({
+  id: z.string().min(1),
+  doctorName: z.string().min(1),
+  signatureImage: z.string().min(1),
+  stampImage: z.string().min(1).optional(),
+});
+
+export type Physician = z.infer<typeof PhysicianSchema>;
+
+// What the review step sees of a physician; image paths stay on the server
+export interface PhysicianSummary {
+  id: string;
+  doctorName: string;
+  hasStamp: boolean;
+}
+
+// Signature and stamp artwork, as PNG bytes with their pixel size.
+export interface PngImage {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+export interface SignatureImages {
+  signature: PngImage;
+  stamp: PngImage | null;
+}
+
+export class PhysicianError extends Error {}
+
+const PNG_MAGIC = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Leeway for the reviewer's clock running ahead of the server's
+const CLOCK_SKEW_MS = 5 * 60_000;
+
+function physiciansDir(): string {
+  return process.env.PHYSICIANS_DIR || path.join(process.cwd(), "physicians");
+}
+
+export async function listPhysicians(): Promise<Physician[]> {
+  let raw: string;
+  try {
+    raw = await readFile(path.join(physiciansDir(), "physicians.json"), "utf8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw err;
+  }
+  return z.array(PhysicianSchema).parse(JSON.parse(raw));
+}
+
+// Width and height come from the IHDR chunk that starts every PNG
+async function readPng(file: string): Promise<PngImage> {
+  // basename keeps configured paths inside the physicians folder
+  const data = new Uint8Array(await readFile(path.join(physiciansDir(), path.basename(file))));
+  if (data.length < 24 || PNG_MAGIC.some((byte, i) => data[i] !== byte)) {
+    throw new PhysicianError(`${file} is not a PNG image`);
+  }
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  return { data, width: view.getUint32(16), height: view.getUint32(20) };
+}
+
+/**
+ * The approving physician's signature (and stamp, if any), once the approval
+ * is checked: a real approval time, the hash of this exact report, and the
+ * doctor the report is signed by.
+ */
+export async function loadSignatureImages(
+  approval: ReportApproval,
+  report: ReportData
+): Promise<SignatureImages> {
+  const approvedAt = Date.parse(approval.approvedAt);
+  if (Number.isNaN(approvedAt) || approvedAt > Date.now() + CLOCK_SKEW_MS) {
+    throw new PhysicianError(`"${approval.approvedAt}" is not a valid approval time`);
+  }
+  if (approval.reportHash !== (await reportHash(report))) {
+    throw new PhysicianError("The report differs from the one approved; approve it again");
+  }
+
+  const physician = (await listPhysicians()).find(({ id }) => id === approval.physicianId);
+  if (!physician) {
+    throw new PhysicianError(`Unknown physician "${approval.physicianId}"`);
+  }
+  const { doctorName } = report.signature;
+  if (physician.doctorName !== doctorName) {
+    throw new PhysicianError(
+      `The report is signed by ${doctorName}, not by ${physician.doctorName}`
+    );
+  }
+
+  return {
+    signature: await readPng(physician.signatureImage),
+    stamp: physician.stampImage ? await readPng(physician.stampImage) : null,
+  };
+}
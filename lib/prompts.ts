@@ -0,0 +1,131 @@
+import fs from "fs/promises";
+import path from "path";
+import { REPORT_CONSTANTS } from "./reportRules";
+
+export type PromptVariables = Record<string, string | boolean>;
+
+export interface PromptTemplate {
+  name: string;
+  version: string;
+  text: string;
+}
+
+export interface RenderedPrompt {
+  // "<name>@<version>", recorded alongside every generated report
+  id: string;
+  text: string;
+}
+
+// A requested template version that does not exist
+export class PromptVersionError extends Error {}
+
+// Templates live on disk as <PROMPTS_DIR>/<name>/<version>.txt and are read on
+// every request, so a new version can be dropped in without a deploy.
+function promptsDir(): string {
+  return process.env.PROMPTS_DIR || path.join(process.cwd(), "prompts");
+}
+
+function versionNumber(version: string): number {
+  return Number(version.replace(/^v/, "")) || 0;
+}
+
+export async function listPromptVersions(name: string): Promise<string[]> {
+  const files = await fs.readdir(path.join(promptsDir(), name));
+  return files
+    .filter((file) => file.endsWith(".txt"))
+    .map((file) => file.slice(0, -".txt".length))
+    .sort((a, b) => versionNumber(a) - versionNumber(b));
+}
+
+// Env override for a template, e.g. REPORT_SYSTEM_PROMPT_VERSION=v1
+function envVersion(name: string): string | undefined {
+  return process.env[`${name.replace(/-/g, "_").toUpperCase()}_PROMPT_VERSION`];
+}
+
+/**
+ * Loads a template version: the requested one, else the env override,
+ * else the latest on disk.
+ */
+export async function loadPrompt(
+  name: string,
+  version?: string
+): Promise<PromptTemplate> {
+  const selected =
+    version || envVersion(name) || (await listPromptVersions(name)).at(-1);
+
+  const unknownVersion = async () => {
+    const versions = await listPromptVersions(name);
+    return new PromptVersionError(
+      `Prompt "${name}" has no version "${version}"; available versions: ${versions.join(", ")}`
+    );
+  };
+
+  if (!selected || !/^[\w.-]+$/.test(selected)) {
+    if (version) throw await unknownVersion();
+    throw new Error(`No usable version of prompt "${name}"`);
+  }
+
+  try {
+    const text = await fs.readFile(
+      path.join(promptsDir(), name, `${selected}.txt`),
+      "utf8"
+    );
+    return { name, version: selected, text };
+  } catch (err) {
+    // Only a version named in the request is the caller's mistake
+    if (version && (err as NodeJS.ErrnoException).code === "ENOENT") {
+      throw await unknownVersion();
+    }
+    throw err;
+  }
+}
+
+/**
+ * Fills {{variable}} placeholders. {{#flag}}...{{/flag}} keeps its body when
+ * flag is true and {{^flag}}...{{/flag}} when it is false.
+ */
+export function renderTemplate(text: string, variables: PromptVariables): string {
+  const lookup = (key: string) => {
+    if (!(key in variables)) {
+      throw new Error(`Prompt variable "${key}" is not defined`);
+    }
+    return variables[key];
+  };
+
+  return text
+    .replace(
+      /\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}\n?/g,
+      (_, kind: string, key: string, body: string) =>
+        Boolean(lookup(key)) === (kind === "#") ? `${body}\n` : ""
+    )
+    .replace(/\{\{(\w+)\}\}/g, (_, key: string) => String(lookup(key)));
+}
+
+// Variables shared by every report prompt; routes add their own on top.
+export function reportPromptVariables(): PromptVariables {
+  const { signature, homePhysio } = REPORT_CONSTANTS;
+  return {
+    payer: REPORT_CONSTANTS.payer,
+    hospital: REPORT_CONSTANTS.hospital,
+    frequency: homePhysio.frequency,
+    duration: homePhysio.duration,
+    greeting: signature.greeting,
+    physicianName: signature.doctorName,
+    physicianTitle: signature.title,
+    dohLicense: signature.dohLicense,
+    facility: signature.facility,
+    signatureStamp: signature.signatureStamp,
+  };
+}
+
+export async function renderPrompt(
+  name: string,
+  variables: PromptVariables,
+  version?: string
+): Promise<RenderedPrompt> {
+  const template = await loadPrompt(name, version);
+  return {
+    id: `${template.name}@${template.version}`,
+    text: renderTemplate(template.text, variables),
+  };
+}
@@ -0,0 +1,42 @@
+import type { ReportData } from "./schema";
+
+// A physician's sign-off on one exact report, sent with it to create-pdfs-batch.
+// Shared with the client, so it must not import server-only modules. Nothing
+// authenticates it: the hash only shows the report was not edited after
+// approval, and any client can send an approval for any physician.
+export interface ReportApproval {
+  physicianId: string;
+  approvedAt: string;
+  // reportHash of the report as it was approved
+  reportHash: string;
+}
+
+// Keys sorted at every level, so the hash does not depend on key order
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * SHA-256 (hex) of a validated report. The review step hashes the report the
+ * physician approves; the server hashes the report it is about to sign.
+ */
+export async function reportHash(report: ReportData): Promise<string> {
+  // Browsers only provide crypto.subtle on secure origins
+  if (!globalThis.crypto?.subtle) {
+    throw new Error("Approving reports needs a secure origin (HTTPS or localhost)");
+  }
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(canonicalJson(report))
+  );
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
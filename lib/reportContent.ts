@@ -0,0 +1,65 @@
+import type { ChatCompletionContentPart } from "openai/resources/chat/completions";
+import { documentContentParts } from "./documents";
+import { normalizePatientDates } from "./dates";
+import { ATTACHMENT_TYPES, type ClinicalAttachment, type PatientData } from "./reportInputs";
+
+function patientAttachments(patientData: PatientData): ClinicalAttachment[] {
+  const attachments = [...(patientData.clinicalAttachments ?? [])];
+  if (patientData.clinicalImageBase64) {
+    attachments.push({
+      type: "previous-notes",
+      filename: "clinical image",
+      dataUrl: patientData.clinicalImageBase64,
+    });
+  }
+  return attachments;
+}
+
+/**
+ * The user message content for report prompts: the extracted demographics
+ * followed by the clinical text and each labeled attachment, PDFs page by page.
+ */
+export async function buildReportUserContent(
+  patientData: PatientData
+): Promise<ChatCompletionContentPart[]> {
+  const { patientInfo, clinicalText } = patientData;
+  const { dates } = normalizePatientDates(patientInfo);
+
+  // Build user content
+  const userContent: ChatCompletionContentPart[] = [];
+
+  // Add patient information as text
+  userContent.push({
+    type: "text",
+    text: `Patient Information (use these exact values):
+Name: ${patientInfo.name}
+Date of Birth: ${patientInfo.dateOfBirth}${dates ? `\nAge: ${dates.age} years` : ""}
+Gender: ${patientInfo.gender}
+MRN: ${patientInfo.mrn}
+Date of Report: ${patientInfo.dateOfReport}
+Hospital: ${patientInfo.hospital}`,
+  });
+
+  // Add clinical text
+  if (clinicalText) {
+    userContent.push({
+      type: "text",
+      text: `Clinical Description:\n${clinicalText}`,
+    });
+  }
+
+  // Add each clinical attachment, labeled so the model can cite it. Filenames
+  // often carry the patient's name, so the label leaves them out.
+  const attachments = patientAttachments(patientData);
+  for (const [index, attachment] of attachments.entries()) {
+    const type = ATTACHMENT_TYPES[attachment.type] ?? ATTACHMENT_TYPES.other;
+    userContent.push(
+      ...(await documentContentParts(
+        `Attachment ${index + 1}: ${type}`,
+        attachment.dataUrl
+      ))
+    );
+  }
+
+  return userContent;
+}
@@ -0,0 +1,156 @@
+import type { ReportData } from "./schema";
+import type { PngImage, SignatureImages } from "./physicians";
+import { formatDateOfBirth, formatReportDate } from "./dates";
+import { vitalSignRows } from "./vitalSigns";
+import {
+  romRows,
+  strengthRows,
+  ROM_TABLE_HEADER,
+  STRENGTH_TABLE_HEADER,
+} from "./findings";
+
+// Printed heights, in points, of the approving physician's artwork
+const SIGNATURE_HEIGHT = 50;
+const STAMP_HEIGHT = 80;
+
+// Section headings are level 1, their sub-headings level 2
+export type HeadingLevel = 1 | 2;
+
+export type DocumentBlock =
+  | { type: "title"; text: string }
+  | { type: "heading"; level: HeadingLevel; text: string }
+  | { type: "paragraph"; text: string }
+  | { type: "bullets"; items: string[] }
+  | { type: "keyValues"; entries: Array<{ label: string; value: string }> }
+  // Column widths are fractions of the text width
+  | { type: "table"; header: string[]; rows: string[][]; columnWidths: number[] }
+  | {
+      type: "signature";
+      greeting: string;
+      lines: string[];
+      date: string;
+      stampLabel: string;
+      // Placed side by side under the label, scaled to height (points)
+      images: Array<{ png: PngImage; height: number }>;
+    };
+
+function section(text: string, ...blocks: DocumentBlock[]): DocumentBlock[] {
+  return [{ type: "heading", level: 1, text }, ...blocks];
+}
+
+function subsection(text: string, ...blocks: DocumentBlock[]): DocumentBlock[] {
+  return [{ type: "heading", level: 2, text }, ...blocks];
+}
+
+function examinationFindings(report: ReportData): DocumentBlock[] {
+  const tables = [
+    {
+      title: "Range of Motion:",
+      header: ROM_TABLE_HEADER,
+      rows: romRows(report.romMeasurements),
+      columnWidths: [0.24, 0.16, 0.28, 0.16, 0.16],
+    },
+    {
+      title: "Muscle Strength:",
+      header: STRENGTH_TABLE_HEADER,
+      rows: strengthRows(report.strengthGrades),
+      columnWidths: [0.5, 0.25, 0.25],
+    },
+  ].filter((table) => table.rows.length > 0);
+
+  if (tables.length === 0) {
+    return [];
+  }
+
+  return section(
+    "Examination Findings:",
+    ...tables.flatMap(({ title, ...table }) =>
+      subsection(title, { type: "table", ...table })
+    )
+  );
+}
+
+/**
+ * The report as an ordered list of blocks, in the section order and with the
+ * labels of the printed report. The PDF and DOCX renderers only lay it out.
+ * Signature images are passed only for reports a physician has approved.
+ */
+export function buildReportDocument(
+  report: ReportData,
+  signatureImages: SignatureImages | null = null
+): DocumentBlock[] {
+  const info = report.patientInformation;
+  const { treatmentPlan, signature } = report;
+
+  return [
+    { type: "title", text: "Medical Report" },
+
+    ...section("Patient Information:", {
+      type: "keyValues",
+      entries: [
+        { label: "Name", value: info.name },
+        { label: "Date of Birth", value: formatDateOfBirth(info) },
+        { label: "Gender", value: info.gender },
+        { label: "MRN", value: info.mrn },
+        { label: "Date of Report", value: formatReportDate(info.dateOfReport) },
+        { label: "Hospital", value: info.hospital },
+      ],
+    }),
+
+    ...section("Clinical History:", { type: "paragraph", text: report.clinicalHistory }),
+
+    ...section("Past Medical History:", { type: "bullets", items: report.pastMedicalHistory }),
+
+    ...section("Vital Signs:", {
+      type: "table",
+      header: ["Measurement", "Value", "Normal Range"],
+      rows: vitalSignRows(report.vitalSigns).map((row) => [
+        row.label,
+        row.value,
+        row.normalRange,
+      ]),
+      columnWidths: [0.4, 0.3, 0.3],
+    }),
+
+    ...section("Clinical Notes:", { type: "paragraph", text: report.clinicalNotes }),
+
+    ...examinationFindings(report),
+
+    ...section("Diagnoses:", {
+      type: "bullets",
+      items: report.diagnoses.map((d) => `${d.label} (${d.code}): ${d.description}`),
+    }),
+
+    ...section(
+      "Treatment Plan:",
+      ...subsection("Medications:", { type: "bullets", items: treatmentPlan.medications }),
+      ...subsection("Home Physiotherapy:", {
+        type: "keyValues",
+        entries: [
+          { label: "Frequency", value: treatmentPlan.homePhysio.frequency },
+          { label: "Duration", value: treatmentPlan.homePhysio.duration },
+        ],
+      }),
+      ...subsection("Short-Term Goals:", { type: "bullets", items: treatmentPlan.shortTermGoals }),
+      ...subsection("Long-Term Goals:", { type: "bullets", items: treatmentPlan.longTermGoals })
+    ),
+
+    ...section("Prognosis:", { type: "bullets", items: report.prognosis }),
+
+    ...section("Conclusion:", { type: "paragraph", text: report.conclusion }),
+
+    {
+      type: "signature",
+      greeting: signature.greeting,
+      lines: [signature.doctorName, signature.title, signature.dohLicense, signature.facility],
+      date: signature.date,
+      stampLabel: signature.signatureStamp,
+      images: signatureImages
+        ? [
+            { png: signatureImages.signature, height: SIGNATURE_HEIGHT },
+            ...(signatureImages.stamp ? [{ png: signatureImages.stamp, height: STAMP_HEIGHT }] : []),
+          ]
+        : [],
+    },
+  ];
+}
@@ -0,0 +1,31 @@
+import type { ReportData } from "./schema";
+
+export type PatientInfo = ReportData["patientInformation"] & { id: string };
+
+export const ATTACHMENT_TYPES = {
+  referral: "Referral",
+  "xray-report": "X-ray / imaging report",
+  "previous-notes": "Previous clinical notes",
+  "lab-results": "Laboratory results",
+  other: "Other clinical document",
+} as const;
+
+export type AttachmentType = keyof typeof ATTACHMENT_TYPES;
+
+export interface ClinicalAttachment {
+  type: AttachmentType;
+  // Not sent to the model: filenames often carry the patient's name
+  filename: string;
+  // Base64 data URL of the document: an image or a PDF
+  dataUrl: string;
+}
+
+// Source inputs for one patient, as sent by the review workflow. Shared with
+// the client; the server-side prompt content is built in reportContent.ts.
+export interface PatientData {
+  patientInfo: PatientInfo;
+  clinicalText: string;
+  clinicalAttachments?: ClinicalAttachment[];
+  // Single unlabeled clinical image, from clients predating attachments
+  clinicalImageBase64?: string;
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import reportFixture from "./llm/fixtures/thiqa_medical_report.json";
+import { REPORT_SCHEMA_VERSION, ReportSchema } from "./schema";
+import { migrateReport, ReportMigrationError } from "./reportMigrations";
+
+// The fixture as it was saved before versioning: free-text vital signs and
+// none of the fields added since
+function unversionedReport(vitalSigns: string[]) {
+  const report: Record<string, unknown> = { ...reportFixture, vitalSigns };
+  for (const key of ["schemaVersion", "romMeasurements", "strengthGrades", "sourceAttributions"]) {
+    delete report[key];
+  }
+  return report;
+}
+
+describe("migrateReport", () => {
+  it("upgrades an unversioned report to one that passes validation", () => {
+    const migrated = migrateReport(unversionedReport(["Heart Rate: 78 bpm"]));
+    const report = ReportSchema.parse(migrated);
+    expect(report.schemaVersion).toBe(REPORT_SCHEMA_VERSION);
+    expect(report.romMeasurements).toEqual([]);
+    expect(report.strengthGrades).toEqual([]);
+    expect(report.sourceAttributions).toEqual([]);
+  });
+
+  it("reads the free-text vital sign lines", () => {
+    const migrated = migrateReport(
+      unversionedReport([
+        "Blood Pressure: 130/85 mmHg",
+        "Pulse: 72",
+        "RR: 16",
+        "SpO2: 97%",
+        "Temperature: 98.6 F",
+        "Weight: 81.5 kg",
+        "Pain: 6/10",
+      ])
+    );
+    expect(ReportSchema.parse(migrated).vitalSigns).toEqual({
+      bloodPressure: { systolic: 130, diastolic: 85, unit: "mmHg" },
+      heartRate: { value: 72, unit: "bpm" },
+      respiratoryRate: { value: 16, unit: "breaths/min" },
+      oxygenSaturation: { value: 97, unit: "%" },
+      temperature: { value: 37, unit: "°C" },
+      weight: { value: 81.5, unit: "kg" },
+      painScore: { value: 6, unit: "/10" },
+    });
+  });
+
+  it("leaves unreadable vital signs empty", () => {
+    const migrated = migrateReport(unversionedReport(["Heart Rate: stable"]));
+    const { vitalSigns } = ReportSchema.parse(migrated);
+    expect(vitalSigns.heartRate.value).toBeNull();
+    expect(vitalSigns.bloodPressure.systolic).toBeNull();
+  });
+
+  it("leaves a current report unchanged", () => {
+    expect(migrateReport(reportFixture)).toEqual(reportFixture);
+  });
+
+  it("rejects a report from a newer schema version", () => {
+    const report = { ...reportFixture, schemaVersion: REPORT_SCHEMA_VERSION + 1 };
+    expect(() => migrateReport(report)).toThrow(ReportMigrationError);
+  });
+
+  it("rejects a schema version it has no migration from", () => {
+    expect(() => migrateReport({ ...reportFixture, schemaVersion: 1.5 })).toThrow(
+      ReportMigrationError
+    );
+  });
+});
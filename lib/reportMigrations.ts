@@ -0,0 +1,128 @@
+import { REPORT_SCHEMA_VERSION } from "./schema";
+
+type ReportJson = Record<string, unknown>;
+
+function findLine(lines: string[], pattern: RegExp): string | undefined {
+  return lines.find((line) => pattern.test(line));
+}
+
+// First number after the label, so "SpO2: 97%" reads 97 rather than 2.
+function readNumber(lines: string[], pattern: RegExp): number | null {
+  const line = findLine(lines, pattern);
+  const label = line?.match(pattern);
+  if (!line || !label || label.index === undefined) return null;
+
+  const match = line
+    .slice(label.index + label[0].length)
+    .match(/-?\d+(?:\.\d+)?/);
+  return match ? Number(match[0]) : null;
+}
+
+// Best-effort conversion of the old free-text vital sign lines
+// (e.g. "Blood Pressure: 130/85 mmHg", "Heart Rate: stable").
+function parseLegacyVitalSigns(value: unknown) {
+  const lines = Array.isArray(value)
+    ? value.filter((line): line is string => typeof line === "string")
+    : [];
+
+  const bp = findLine(lines, /blood pressure|\bbp\b/i)?.match(
+    /(\d{2,3})\s*\/\s*(\d{2,3})/
+  );
+  const pain = findLine(lines, /pain/i)?.match(/(\d{1,2})\s*\/\s*10/);
+
+  let temperature = readNumber(lines, /temp\w*/i);
+  if (temperature !== null && temperature > 45) {
+    // Fahrenheit reading
+    temperature = Math.round((((temperature - 32) * 5) / 9) * 10) / 10;
+  }
+
+  return {
+    bloodPressure: {
+      systolic: bp ? Number(bp[1]) : null,
+      diastolic: bp ? Number(bp[2]) : null,
+      unit: "mmHg",
+    },
+    heartRate: {
+      value: readNumber(lines, /heart rate|pulse|\bhr\b/i),
+      unit: "bpm",
+    },
+    respiratoryRate: {
+      value: readNumber(lines, /respiratory rate|\brr\b/i),
+      unit: "breaths/min",
+    },
+    oxygenSaturation: {
+      value: readNumber(lines, /spo2|saturation/i),
+      unit: "%",
+    },
+    temperature: { value: temperature, unit: "°C" },
+    weight: { value: readNumber(lines, /weight/i), unit: "kg" },
+    painScore: {
+      value: pain ? Number(pain[1]) : readNumber(lines, /pain/i),
+      unit: "/10",
+    },
+  };
+}
+
+// Each entry upgrades a report from version N to N + 1.
+const migrations: Record<number, (report: ReportJson) => ReportJson> = {
+  // Reports created before versioning carry no schemaVersion marker.
+  0: (report) => ({ ...report, schemaVersion: 1 }),
+  // vitalSigns changed from free-text lines to structured measurements.
+  1: (report) => ({
+    ...report,
+    schemaVersion: 2,
+    vitalSigns: parseLegacyVitalSigns(report.vitalSigns),
+  }),
+  // Structured ROM and strength findings were added; older reports only
+  // describe them in clinicalNotes.
+  2: (report) => ({
+    ...report,
+    schemaVersion: 3,
+    romMeasurements: [],
+    strengthGrades: [],
+  }),
+  // Per-sentence source attribution was added; older reports have none.
+  3: (report) => ({
+    ...report,
+    schemaVersion: 4,
+    sourceAttributions: [],
+  }),
+};
+
+// Report JSON this server cannot upgrade, e.g. written by a newer version
+export class ReportMigrationError extends Error {}
+
+function isReportJson(value: unknown): value is ReportJson {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Upgrades report JSON of any earlier schema version to the current shape.
+ * The result still has to go through ReportSchema.parse.
+ */
+export function migrateReport(input: unknown): unknown {
+  if (!isReportJson(input)) {
+    return input;
+  }
+
+  let version =
+    typeof input.schemaVersion === "number" ? input.schemaVersion : 0;
+
+  if (version > REPORT_SCHEMA_VERSION) {
+    throw new ReportMigrationError(
+      `Report schema version ${version} is newer than supported version ${REPORT_SCHEMA_VERSION}`
+    );
+  }
+
+  let report = input;
+  while (version < REPORT_SCHEMA_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new ReportMigrationError(`No migration from report schema version ${version}`);
+    }
+    report = migrate(report);
+    version += 1;
+  }
+
+  return report;
+}
@@ -0,0 +1,110 @@
+import type { ReportData } from "./schema";
+import { formatReportDate, parseClinicalDate } from "./dates";
+
+// Payer constants every Thiqa home physiotherapy report must carry.
+export const REPORT_CONSTANTS = {
+  payer: "Thiqa (insurance for Emirati citizens in the UAE)",
+  hospital: "Emirates International Hospital",
+  homePhysio: {
+    frequency: "3 times per week",
+    duration: "6 months",
+  },
+  mandatoryMedications: ["Diclofenac gel topical", "Paracetamol 650 mg"],
+  signature: {
+    greeting: "Sincerely,",
+    doctorName: "Dr. Farhat El Rassi",
+    title: "Consultant Orthopedic Surgeon",
+    dohLicense: "DOH License No.: GD36956",
+    facility: "Facility: Emirates International Hospital, Abu Dhabi, UAE",
+    signatureStamp: "Signature & Stamp:",
+  },
+};
+
+export interface RuleCorrection {
+  field: string;
+  from: string | null;
+  to: string;
+}
+
+/**
+ * Forces the payer constants onto a generated report instead of trusting the
+ * prompt, and lists every value it had to change.
+ */
+export function enforceReportRules(input: ReportData): {
+  report: ReportData;
+  corrections: RuleCorrection[];
+} {
+  const report: ReportData = structuredClone(input);
+  const corrections: RuleCorrection[] = [];
+
+  const setField = (
+    target: Record<string, string>,
+    key: string,
+    value: string,
+    field: string
+  ) => {
+    if (target[key] !== value) {
+      corrections.push({ field, from: target[key], to: value });
+      target[key] = value;
+    }
+  };
+
+  // Dates are stored as ISO; values that do not parse are left for review
+  for (const key of ["dateOfBirth", "dateOfReport"] as const) {
+    const { iso } = parseClinicalDate(report.patientInformation[key]);
+    if (iso) setField(report.patientInformation, key, iso, `patientInformation.${key}`);
+  }
+
+  setField(
+    report.patientInformation,
+    "hospital",
+    REPORT_CONSTANTS.hospital,
+    "patientInformation.hospital"
+  );
+
+  const { homePhysio } = report.treatmentPlan;
+  setField(
+    homePhysio,
+    "frequency",
+    REPORT_CONSTANTS.homePhysio.frequency,
+    "treatmentPlan.homePhysio.frequency"
+  );
+  setField(
+    homePhysio,
+    "duration",
+    REPORT_CONSTANTS.homePhysio.duration,
+    "treatmentPlan.homePhysio.duration"
+  );
+
+  const medications = report.treatmentPlan.medications;
+  for (const required of REPORT_CONSTANTS.mandatoryMedications) {
+    // Match on the drug name so a wrong dose or added comment is replaced.
+    const drug = required.split(" ")[0].toLowerCase();
+    const index = medications.findIndex((med) => med.toLowerCase().includes(drug));
+
+    if (index === -1) {
+      medications.push(required);
+      corrections.push({ field: "treatmentPlan.medications", from: null, to: required });
+    } else if (medications[index] !== required) {
+      corrections.push({
+        field: `treatmentPlan.medications[${index}]`,
+        from: medications[index],
+        to: required,
+      });
+      medications[index] = required;
+    }
+  }
+
+  for (const [key, value] of Object.entries(REPORT_CONSTANTS.signature)) {
+    setField(report.signature, key, value, `signature.${key}`);
+  }
+
+  setField(
+    report.signature,
+    "date",
+    `Date: ${formatReportDate(report.patientInformation.dateOfReport)}`,
+    "signature.date"
+  );
+
+  return { report, corrections };
+}
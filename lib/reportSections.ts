@@ -0,0 +1,56 @@
+import { z } from "zod";
+import { ReportSchema, type ReportData } from "./schema";
+
+const treatmentPlan = ReportSchema.shape.treatmentPlan.shape;
+
+// Sections that can be regenerated on their own. Patient information, home
+// physiotherapy and the signature are payer constants and are never regenerated.
+export const SECTION_SCHEMAS = {
+  clinicalHistory: ReportSchema.shape.clinicalHistory,
+  pastMedicalHistory: ReportSchema.shape.pastMedicalHistory,
+  vitalSigns: ReportSchema.shape.vitalSigns,
+  clinicalNotes: ReportSchema.shape.clinicalNotes,
+  romMeasurements: ReportSchema.shape.romMeasurements,
+  strengthGrades: ReportSchema.shape.strengthGrades,
+  diagnoses: ReportSchema.shape.diagnoses,
+  "treatmentPlan.medications": treatmentPlan.medications,
+  "treatmentPlan.shortTermGoals": treatmentPlan.shortTermGoals,
+  "treatmentPlan.longTermGoals": treatmentPlan.longTermGoals,
+  prognosis: ReportSchema.shape.prognosis,
+  conclusion: ReportSchema.shape.conclusion,
+} as const;
+
+export type SectionKey = keyof typeof SECTION_SCHEMAS;
+
+export const SECTION_KEYS = Object.keys(SECTION_SCHEMAS) as SectionKey[];
+
+export function isSectionKey(key: string): key is SectionKey {
+  return Object.hasOwn(SECTION_SCHEMAS, key);
+}
+
+/**
+ * Structured outputs need an object at the root, so a section is wrapped as
+ * { value: <section> }.
+ */
+export function sectionResponseSchema<K extends SectionKey>(key: K) {
+  return z.object({ value: SECTION_SCHEMAS[key] });
+}
+
+export function getSection(report: ReportData, key: SectionKey): unknown {
+  return key
+    .split(".")
+    .reduce<unknown>((node, part) => (node as Record<string, unknown>)[part], report);
+}
+
+export function setSection(report: ReportData, key: SectionKey, value: unknown): ReportData {
+  const updated = structuredClone(report);
+  const parts = key.split(".");
+  const parent = parts
+    .slice(0, -1)
+    .reduce<Record<string, unknown>>(
+      (node, part) => node[part] as Record<string, unknown>,
+      updated as unknown as Record<string, unknown>
+    );
+  parent[parts[parts.length - 1]] = value;
+  return updated;
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { z, type ZodType } from "zod";
+import type { ResponseFormatJSONSchema } from "openai/resources/shared";
+import {
+  CriticReviewSchema,
+  PatientInfoExtractionSchema,
+  PatientListExtractionSchema,
+  ReportSchema,
+} from "./schema";
+import {
+  criticReviewResponseFormat,
+  patientInfoResponseFormat,
+  patientListResponseFormat,
+  reportResponseFormat,
+  sectionResponseFormat,
+} from "./responseFormats";
+import { sectionResponseSchema, SECTION_KEYS } from "./reportSections";
+import reportFixture from "./llm/fixtures/thiqa_medical_report.json";
+import patientInfoFixture from "./llm/fixtures/patient_info_extraction.json";
+import patientListFixture from "./llm/fixtures/patient_list_extraction.json";
+import criticReviewFixture from "./llm/fixtures/report_critic_review.json";
+
+type JsonSchema = {
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: unknown;
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+};
+
+// Objects strict structured output rejects: optional properties or open shapes
+function nonStrictObjects(schema: JsonSchema, at = "$"): string[] {
+  const problems: string[] = [];
+  if (schema.properties) {
+    const keys = Object.keys(schema.properties).sort();
+    if ([...(schema.required ?? [])].sort().join() !== keys.join()) {
+      problems.push(`${at}: not every property is required`);
+    }
+    if (schema.additionalProperties !== false) {
+      problems.push(`${at}: additional properties are allowed`);
+    }
+    for (const key of keys) {
+      problems.push(...nonStrictObjects(schema.properties[key], `${at}.${key}`));
+    }
+  }
+  if (schema.items) problems.push(...nonStrictObjects(schema.items, `${at}[]`));
+  for (const option of schema.anyOf ?? []) problems.push(...nonStrictObjects(option, at));
+  return problems;
+}
+
+const FORMATS: Array<{ format: ResponseFormatJSONSchema; schema: ZodType }> = [
+  { format: reportResponseFormat, schema: ReportSchema },
+  { format: patientInfoResponseFormat, schema: PatientInfoExtractionSchema },
+  { format: patientListResponseFormat, schema: PatientListExtractionSchema },
+  { format: criticReviewResponseFormat, schema: CriticReviewSchema },
+  ...SECTION_KEYS.map((section) => ({
+    format: sectionResponseFormat(section),
+    schema: sectionResponseSchema(section),
+  })),
+];
+
+// The mock provider replays these as provider replies
+const FIXTURES = [
+  { name: "thiqa_medical_report", fixture: reportFixture, schema: ReportSchema },
+  { name: "patient_info_extraction", fixture: patientInfoFixture, schema: PatientInfoExtractionSchema },
+  { name: "patient_list_extraction", fixture: patientListFixture, schema: PatientListExtractionSchema },
+  { name: "report_critic_review", fixture: criticReviewFixture, schema: CriticReviewSchema },
+];
+
+describe("response formats", () => {
+  it.each(FORMATS)("$format.json_schema.name is the JSON schema of its Zod schema", ({ format, schema }) => {
+    expect(format.json_schema.strict).toBe(true);
+    expect(format.json_schema.schema).toEqual(z.toJSONSchema(schema, { target: "draft-7" }));
+  });
+
+  it.each(FORMATS)("$format.json_schema.name is valid for strict structured output", ({ format }) => {
+    expect(nonStrictObjects(format.json_schema.schema as JsonSchema)).toEqual([]);
+  });
+
+  it("reports optional properties", () => {
+    const schema = z.toJSONSchema(z.object({ note: z.string().optional() }), { target: "draft-7" });
+    expect(nonStrictObjects(schema as JsonSchema)).toEqual(["$: not every property is required"]);
+  });
+
+  it.each(FIXTURES)("the $name fixture passes validation", ({ fixture, schema }) => {
+    expect(schema.safeParse(fixture).error).toBeUndefined();
+  });
+});
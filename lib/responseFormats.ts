@@ -0,0 +1,37 @@
+import { zodResponseFormat } from "openai/helpers/zod";
+import {
+  CriticReviewSchema,
+  PatientInfoExtractionSchema,
+  PatientListExtractionSchema,
+  ReportSchema,
+} from "./schema";
+import { sectionResponseSchema, type SectionKey } from "./reportSections";
+
+// Strict structured-output formats derived from the Zod schemas, so the LLM
+// contract, the validators and the TypeScript types cannot drift apart.
+export const reportResponseFormat = zodResponseFormat(
+  ReportSchema,
+  "thiqa_medical_report"
+);
+
+export const patientInfoResponseFormat = zodResponseFormat(
+  PatientInfoExtractionSchema,
+  "patient_info_extraction"
+);
+
+export const patientListResponseFormat = zodResponseFormat(
+  PatientListExtractionSchema,
+  "patient_list_extraction"
+);
+
+export const criticReviewResponseFormat = zodResponseFormat(
+  CriticReviewSchema,
+  "report_critic_review"
+);
+
+export function sectionResponseFormat(section: SectionKey) {
+  return zodResponseFormat(
+    sectionResponseSchema(section),
+    `report_section_${section.replace(/\./g, "_")}`
+  );
+}
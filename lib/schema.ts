@@ -1,18 +1,126 @@
 import { z } from "zod";
 
+// Demographics read from the patient information screenshot.
+export const PatientInfoSchema = z.object({
+  name: z.string(),
+  dateOfBirth: z.string(),
+  gender: z.string(),
+  mrn: z.string(),
+  dateOfReport: z.string(),
+});
+
+// One demographic field as read by extraction, with how sure the model is.
+export const ExtractedFieldSchema = z.object({
+  value: z.string(),
+  // 0 (guessed or unreadable) to 1 (clearly printed and unambiguous)
+  confidence: z.number().min(0).max(1),
+  // The text exactly as it appears in the document; empty when not found
+  rawText: z.string(),
+});
+
+export const PatientInfoExtractionSchema = z.object({
+  name: ExtractedFieldSchema,
+  dateOfBirth: ExtractedFieldSchema,
+  gender: ExtractedFieldSchema,
+  mrn: ExtractedFieldSchema,
+  dateOfReport: ExtractedFieldSchema,
+});
+
+// Where a patient's row sits in a list document, as fractions of the page
+// measured from its top-left corner.
+export const BoundingRegionSchema = z.object({
+  page: z.number().int().min(1),
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  width: z.number().min(0).max(1),
+  height: z.number().min(0).max(1),
+});
+
+// Several patients read from one ward list or clinic schedule.
+export const PatientListExtractionSchema = z.object({
+  patients: z.array(
+    PatientInfoExtractionSchema.extend({
+      region: BoundingRegionSchema,
+    })
+  ),
+});
+
+// A null value means the measurement was not recorded in the clinical input.
+function measurement<U extends string>(unit: U) {
+  return z.object({
+    value: z.number().nullable(),
+    unit: z.literal(unit),
+  });
+}
+
+export const VitalSignsSchema = z.object({
+  bloodPressure: z.object({
+    systolic: z.number().nullable(),
+    diastolic: z.number().nullable(),
+    unit: z.literal("mmHg"),
+  }),
+  heartRate: measurement("bpm"),
+  respiratoryRate: measurement("breaths/min"),
+  oxygenSaturation: measurement("%"),
+  temperature: measurement("°C"),
+  weight: measurement("kg"),
+  painScore: measurement("/10"),
+});
+
+// Strength is never reported as 4/5 or higher (reporting rule for Thiqa).
+export const MAX_REPORTED_STRENGTH_GRADE = 3;
+
+const SideSchema = z.enum(["left", "right", "bilateral"]);
+
+export const RomMeasurementSchema = z.object({
+  joint: z.string(),
+  side: SideSchema,
+  movement: z.string(),
+  degrees: z.number(),
+  normalDegrees: z.number(),
+});
+
+// Manual muscle testing grade on the 0–5 scale.
+export const StrengthGradeSchema = z.object({
+  muscleGroup: z.string(),
+  side: SideSchema,
+  grade: z
+    .number()
+    .int()
+    .min(0)
+    .max(
+      MAX_REPORTED_STRENGTH_GRADE,
+      "Strength must never be reported as 4/5 or higher"
+    ),
+});
+
+// Where a sentence of clinicalHistory or clinicalNotes came from: a quoted span
+// of the clinical input, or a default reporting rule (ROM, weakness, ...).
+export const SourceAttributionSchema = z.object({
+  section: z.enum(["clinicalHistory", "clinicalNotes"]),
+  sentence: z.string(),
+  source: z.enum(["input", "rule"]),
+  // Verbatim span of the clinical input; null when inferred by rule
+  quote: z.string().nullable(),
+  // Rule that produced the sentence; null when quoted from the input
+  rule: z.string().nullable(),
+});
+
+// Bump whenever ReportSchema changes shape and add a matching step to
+// lib/reportMigrations.ts so stored/edited reports can still be parsed.
+export const REPORT_SCHEMA_VERSION = 4;
+
 export const ReportSchema = z.object({
-  patientInformation: z.object({
-    name: z.string(),
-    dateOfBirth: z.string(),
-    gender: z.string(),
-    mrn: z.string(),
-    dateOfReport: z.string(),
+  schemaVersion: z.literal(REPORT_SCHEMA_VERSION),
+  patientInformation: PatientInfoSchema.extend({
     hospital: z.string(),
   }),
   clinicalHistory: z.string(),
   pastMedicalHistory: z.array(z.string()),
-  vitalSigns: z.array(z.string()),
+  vitalSigns: VitalSignsSchema,
   clinicalNotes: z.string(),
+  romMeasurements: z.array(RomMeasurementSchema),
+  strengthGrades: z.array(StrengthGradeSchema),
   diagnoses: z.array(
     z.object({
       label: z.string(),
@@ -31,6 +139,7 @@ export const ReportSchema = z.object({
   }),
   prognosis: z.array(z.string()),
   conclusion: z.string(),
+  sourceAttributions: z.array(SourceAttributionSchema),
   signature: z.object({
     greeting: z.string(),
     doctorName: z.string(),
@@ -42,4 +151,38 @@ export const ReportSchema = z.object({
   }),
 });
 
+// Reporting rules the critic pass audits; ids are stable for display and filtering.
+export const CRITIC_RULES = [
+  "pain-score-consistency",
+  "pain-qualifier",
+  "strength-ceiling",
+  "findings-match-notes",
+  "source-fidelity",
+  "no-contradictions",
+  "formal-third-person",
+] as const;
+
+export const CriticFindingSchema = z.object({
+  rule: z.enum(CRITIC_RULES),
+  // Report field the finding is about, e.g. "clinicalNotes" or "treatmentPlan.shortTermGoals"
+  section: z.string(),
+  severity: z.enum(["error", "warning", "info"]),
+  finding: z.string(),
+  suggestedFix: z.string(),
+});
+
+export const CriticReviewSchema = z.object({
+  findings: z.array(CriticFindingSchema),
+});
+
+export type PatientInfoData = z.infer<typeof PatientInfoSchema>;
+export type DemographicField = keyof PatientInfoData;
+export type PatientInfoExtraction = z.infer<typeof PatientInfoExtractionSchema>;
+export type BoundingRegion = z.infer<typeof BoundingRegionSchema>;
+export type FieldConfidence = Omit<z.infer<typeof ExtractedFieldSchema>, "value">;
+export type VitalSigns = z.infer<typeof VitalSignsSchema>;
+export type RomMeasurement = z.infer<typeof RomMeasurementSchema>;
+export type StrengthGrade = z.infer<typeof StrengthGradeSchema>;
+export type SourceAttribution = z.infer<typeof SourceAttributionSchema>;
 export type ReportData = z.infer<typeof ReportSchema>;
+export type CriticFinding = z.infer<typeof CriticFindingSchema>;
@@ -0,0 +1,123 @@
+import type { VitalSigns } from "./schema";
+
+interface NormalRange {
+  min: number;
+  max: number;
+}
+
+interface VitalSignReading {
+  label: string;
+  value: number | null;
+  unit: string;
+  normalRange?: NormalRange;
+}
+
+export interface VitalSignRow {
+  label: string;
+  value: string;
+  normalRange: string;
+}
+
+export interface VitalSignFlag {
+  label: string;
+  value: string;
+  normalRange: string;
+  direction: "low" | "high";
+}
+
+export const NOT_RECORDED = "Not recorded";
+
+// Adult resting reference ranges used to flag values in the review step.
+export const VITAL_SIGN_RANGES = {
+  systolic: { min: 90, max: 139 },
+  diastolic: { min: 60, max: 89 },
+  heartRate: { min: 60, max: 100 },
+  respiratoryRate: { min: 12, max: 20 },
+  oxygenSaturation: { min: 95, max: 100 },
+  temperature: { min: 36.1, max: 37.5 },
+} satisfies Record<string, NormalRange>;
+
+function toReadings(vitals: VitalSigns): VitalSignReading[] {
+  return [
+    {
+      label: "BP Systolic",
+      value: vitals.bloodPressure.systolic,
+      unit: vitals.bloodPressure.unit,
+      normalRange: VITAL_SIGN_RANGES.systolic,
+    },
+    {
+      label: "BP Diastolic",
+      value: vitals.bloodPressure.diastolic,
+      unit: vitals.bloodPressure.unit,
+      normalRange: VITAL_SIGN_RANGES.diastolic,
+    },
+    {
+      label: "Heart Rate",
+      ...vitals.heartRate,
+      normalRange: VITAL_SIGN_RANGES.heartRate,
+    },
+    {
+      label: "Respiratory Rate",
+      ...vitals.respiratoryRate,
+      normalRange: VITAL_SIGN_RANGES.respiratoryRate,
+    },
+    {
+      label: "SpO2",
+      ...vitals.oxygenSaturation,
+      normalRange: VITAL_SIGN_RANGES.oxygenSaturation,
+    },
+    {
+      label: "Temperature",
+      ...vitals.temperature,
+      normalRange: VITAL_SIGN_RANGES.temperature,
+    },
+    { label: "Weight", ...vitals.weight },
+    { label: "Pain Score", ...vitals.painScore },
+  ];
+}
+
+function withUnit(value: number, unit: string): string {
+  // "%" and "/10" read naturally without a space.
+  return unit === "%" || unit.startsWith("/") ? `${value}${unit}` : `${value} ${unit}`;
+}
+
+function formatRange(range: NormalRange | undefined, unit: string): string {
+  return range ? `${range.min}–${withUnit(range.max, unit)}` : "—";
+}
+
+/**
+ * One display row per measurement, shared by the PDF and DOCX renderers.
+ */
+export function vitalSignRows(vitals: VitalSigns): VitalSignRow[] {
+  return toReadings(vitals).map((reading) => ({
+    label: reading.label,
+    value:
+      reading.value === null
+        ? NOT_RECORDED
+        : withUnit(reading.value, reading.unit),
+    normalRange: formatRange(reading.normalRange, reading.unit),
+  }));
+}
+
+/**
+ * Recorded measurements that fall outside their normal range.
+ */
+export function flagVitalSigns(vitals: VitalSigns): VitalSignFlag[] {
+  const flags: VitalSignFlag[] = [];
+
+  for (const reading of toReadings(vitals)) {
+    const { value, normalRange } = reading;
+    if (value === null || !normalRange) continue;
+
+    if (value < normalRange.min || value > normalRange.max) {
+      flags.push({
+        label: reading.label,
+        value: withUnit(value, reading.unit),
+        normalRange: formatRange(normalRange, reading.unit),
+        direction: value < normalRange.min ? "low" : "high",
+      });
+    }
+  }
+
+  return flags;
+}
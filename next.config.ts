@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Native canvas bindings used to rasterize scanned PDF pages
+  serverExternalPackages: ["@napi-rs/canvas", "unpdf"],
 };
 
 export default nextConfig;